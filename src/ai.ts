@@ -1,279 +1,670 @@
-import OpenAI from 'openai';
 import { getConfig } from './config.js';
-import { GitDiff, Config } from './types.js';
+import { GitDiff, Config, CommitGroup, CommitCandidate, SummaryChunk } from './types.js';
 import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
-import { getRecentCommits } from './git.js';
+import { getRecentCommits, getRepoRoot } from './git.js';
+import { LLMProvider, ApiError, RequestCancelledError, classifyError, createProvider, completeCandidates, getMissingFields, getProviderInfo } from './providers.js';
+import { lintCommitMessage } from './commitlint.js';
+import { ExcludedFile, IgnoreMatcher, loadIgnoreMatcher, excludeIgnoredFiles } from './ignore.js';
+import { ModelLimits, COMPRESSION_FACTOR, getModelLimits, computeDiffBudget, fitDiffToBudget, countTokens } from './tokens.js';
+import { withCache, getCacheKey } from './cache.js';
+import { UsageEntry, UsageTotals, toUsageEntry, recordUsage, sumUsage } from './usage.js';
+import { Correction, DEFAULT_CORRECTION_EXAMPLES, loadCorrections, selectCorrections } from './corrections.js';
+import { HistoryProfile, getHistoryProfile, suggestFromHistory, describeHistoryProfile } from './history.js';
+import { ScanResult, SecretPolicy, SensitiveContentError, scanDiff, scanText, describeFinding } from './secrets.js';
+import { Convention, ChangeIntent, resolveConvention, getFormatDescription, getTypeForIntent, formatHeader, validateCommitMessage } from './conventions.js';
 
-// Simple token estimation (roughly 4 characters per token for English text)
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+// The diff split into one section per file, with ignored files and secrets already taken out
+interface PreparedDiff {
+  sections: string[];
+  wasTruncated: boolean;
+  warnings: string[];
+  // Files whose hunks were left out by the ignore rules
+  excluded: ExcludedFile[];
 }
 
 interface ProcessedDiff {
   content: string;
   wasTruncated: boolean;
   warnings: string[];
+  excluded: ExcludedFile[];
 }
 
-function processDiffContent(diffContent: string): ProcessedDiff {
-  const MAX_TOKENS = 50000;
+// Nothing that looks like a credential may leave the machine: redact it, or refuse to send anything
+function protectContent(scan: ScanResult, policy: SecretPolicy = 'redact'): { content: string; warnings: string[] } {
+  if (scan.findings.length > 0 && policy === 'block') {
+    throw new SensitiveContentError(scan.findings);
+  }
+  return {
+    content: scan.content,
+    warnings: scan.findings.map(finding => `Redacted before sending: ${describeFinding(finding)}`),
+  };
+}
+
+function prepareDiff(rawContent: string, secretPolicy?: SecretPolicy, isIgnored?: IgnoreMatcher): PreparedDiff {
+  // Cheap guard before tokenizing, a single file this long never fits anyway
   const MAX_LINES_PER_FILE = 2000;
-  const FALLBACK_LINES_PER_FILE = 20;
   
-  let warnings: string[] = [];
+  // Ignored files go first, their content is neither sent nor worth scanning
+  const { content: keptContent, excluded } = isIgnored ? excludeIgnoredFiles(rawContent, isIgnored) : { content: rawContent, excluded: [] };
+  const { content: diffContent, warnings } = protectContent(scanDiff(keptContent), secretPolicy);
   let wasTruncated = false;
   
   // Split diff into files (assuming diff format starts with diff --git)
-  const fileSections = diffContent.split(/(?=^diff --git)/m).filter(Boolean);
-  
-  if (fileSections.length === 0) {
-    return { content: diffContent, wasTruncated: false, warnings: [] };
-  }
-  
-  // First pass: apply per-file line limits
-  let processedSections = fileSections.map(section => {
+  const sections = diffContent.split(/(?=^diff --git)/m).filter(Boolean).map(section => {
     const lines = section.split('\n');
     if (lines.length > MAX_LINES_PER_FILE) {
       wasTruncated = true;
       const fileName = extractFileName(section);
       warnings.push(`File ${fileName}: truncated to ${MAX_LINES_PER_FILE} lines (original: ${lines.length} lines)`);
-      return lines.slice(0, MAX_LINES_PER_FILE).join('\n');
+      return lines.slice(0, MAX_LINES_PER_FILE).join('\n') + '\n';
     }
     return section;
   });
   
-  let combinedContent = processedSections.join('\n');
-  let estimatedTokens = estimateTokens(combinedContent);
+  return { sections, wasTruncated, warnings, excluded };
+}
+
+// Shares the token budget across files, source code first
+function processDiffContent(prepared: PreparedDiff, budget: number, limits: ModelLimits): ProcessedDiff {
+  const warnings = [...prepared.warnings];
+  let wasTruncated = prepared.wasTruncated;
   
-  // Second pass: if still too many tokens, compress to summary format
-  if (estimatedTokens > MAX_TOKENS) {
+  const fitted = fitDiffToBudget(prepared.sections, budget);
+  if (fitted.truncated.length > 0 || fitted.summarized.length > 0) {
     wasTruncated = true;
-    warnings.push(`Diff too large (${estimatedTokens} tokens), compressing to summary format`);
-    
-    processedSections = fileSections.map(section => {
-      const fileName = extractFileName(section);
-      const lines = section.split('\n');
-      const diffLines = lines.filter(line => line.startsWith('+') || line.startsWith('-'));
-      const additionsCount = lines.filter(line => line.startsWith('+')).length;
-      const deletionsCount = lines.filter(line => line.startsWith('-')).length;
-      
-      // Show file info + first 20 lines of diff
-      const headerLines = lines.slice(0, Math.min(5, lines.length)); // Git headers
-      const diffPreview = lines.filter(line => 
-        line.startsWith('+') || line.startsWith('-') || line.startsWith('@@')
-      ).slice(0, FALLBACK_LINES_PER_FILE);
-      
-      return [
-        `File: ${fileName} (+${additionsCount} -${deletionsCount} lines)`,
-        ...headerLines,
-        ...diffPreview,
-        diffPreview.length >= FALLBACK_LINES_PER_FILE ? '... (diff truncated)' : ''
-      ].filter(Boolean).join('\n');
-    });
-    
-    combinedContent = processedSections.join('\n\n');
-    estimatedTokens = estimateTokens(combinedContent);
-    
-    // Final fallback: hard truncate if still too large
-    if (estimatedTokens > MAX_TOKENS) {
-      const maxChars = MAX_TOKENS * 4; // Convert tokens back to approximate characters
-      combinedContent = combinedContent.slice(0, maxChars);
-      warnings.push(`Content truncated to ${MAX_TOKENS} tokens limit`);
-    }
+    const parts = [
+      fitted.truncated.length > 0 ? `${fitted.truncated.length} file${fitted.truncated.length !== 1 ? 's' : ''} truncated` : '',
+      fitted.summarized.length > 0 ? `${fitted.summarized.length} file${fitted.summarized.length !== 1 ? 's' : ''} summarized` : '',
+    ].filter(Boolean);
+    warnings.push(`Diff too large for ${limits.model} (${budget} of ${limits.contextWindow} context tokens left for it): ${parts.join(', ')}`);
   }
   
   return {
-    content: combinedContent,
+    content: fitted.content,
     wasTruncated,
-    warnings
+    warnings,
+    excluded: prepared.excluded
   };
 }
 
+function assertProviderConfigured(config: Config): void {
+  const missingFields = getMissingFields(config);
+  if (missingFields.length > 0) {
+    const providerLabel = getProviderInfo(config).label;
+    throw new Error(`${providerLabel} ${missingFields.map(field => field.label).join(', ')} not configured. Please run with --config to set it up.`);
+  }
+}
+
 function extractFileName(diffSection: string): string {
   const match = diffSection.match(/^diff --git a\/(.+?) b\/(.+?)$/m);
   return match ? match[2] : 'unknown file';
 }
 
-function getProjectContext(): string | null {
+// Context files are written by hand and may well hold a pasted key, so they are scanned like the diff
+function getProjectContext(secretPolicy?: SecretPolicy): { content: string | null; warnings: string[] } {
   const contextFiles = ['claude.md', 'agent.md', 'llm.md'];
   
   for (const filename of contextFiles) {
     const filePath = resolve(process.cwd(), filename);
     if (existsSync(filePath)) {
+      let content: string;
       try {
-        const content = readFileSync(filePath, 'utf-8');
-        // Limit context file size to avoid token overflow
-        const maxChars = 2000; // About 500 tokens
-        if (content.length > maxChars) {
-          return content.slice(0, maxChars) + '\n\n[... content truncated ...]';
-        }
-        return content;
+        content = readFileSync(filePath, 'utf-8');
       } catch (error) {
         // If file can't be read, continue to next file
         continue;
       }
+      // Limit context file size to avoid token overflow
+      const maxChars = 2000; // About 500 tokens
+      if (content.length > maxChars) {
+        content = content.slice(0, maxChars) + '\n\n[... content truncated ...]';
+      }
+      // Outside the try, a blocking policy must stop the request rather than skip the file
+      return protectContent(scanText(content, filename), secretPolicy);
     }
   }
   
-  return null;
+  return { content: null, warnings: [] };
 }
 
-function createSystemPrompt(language: 'en' | 'zh', diff: GitDiff): string {
+// Chinese counterparts of the specificity examples, written in the format of the active convention
+const ZH_SPECIFICITY_EXAMPLES: { intent: ChangeIntent; scope: string; good: string; bad: string; reason: string }[] = [
+  { intent: 'feat', scope: 'auth', good: '添加 TokenExpiry 枚举和验证逻辑', bad: '优化枚举类型定义和转换逻辑', reason: 'no specific names' },
+  { intent: 'fix', scope: 'converter', good: '修复 HemaConverter.parse() 空值处理', bad: '改进数据处理的错误处理机制', reason: 'too vague' },
+  { intent: 'refactor', scope: 'data', good: '重构 SupTree.build() 并发逻辑', bad: '重构数据处理流程', reason: 'no context' },
+];
+
+function createZhExamples(convention: Convention): string {
+  const examples = ZH_SPECIFICITY_EXAMPLES.map((example, index) => ({
+    ...example,
+    // Custom types may have no intent, then the first type stands in
+    type: getTypeForIntent(convention, example.intent) || convention.types[0]?.name || '',
+    // A list of allowed scopes replaces the sample ones, the examples must not break the rules
+    scope: convention.scopes.length > 0 ? convention.scopes[index % convention.scopes.length] : example.scope,
+  }));
+  // Vague messages leave out the scope too, except for a subsystem which the format can't do without
+  const vagueScope = convention.header === 'subsystem' ? 'core' : null;
+  return `Good (具体的):
+${examples.map(example => `✅ "${formatHeader(convention, example.type, example.scope, example.good)}"`).join('\n')}
+
+Bad (模糊的):
+${examples.map(example => `❌ "${formatHeader(convention, example.type, vagueScope, example.bad)}" (${example.reason})`).join('\n')}`;
+}
+
+function createSystemPrompt(language: 'en' | 'zh', diff: GitDiff, convention: Convention): string {
   const totalChanges = diff.additions + diff.deletions;
-  const shouldUseDetailedFormat = totalChanges >= 100;
+  const shouldUseDetailedFormat = totalChanges >= 100 || convention.bodyRequired;
+  const format = getFormatDescription(convention);
+  const hasTypes = convention.types.length > 0;
   
-  const basePrompt = `You are an expert developer who writes precise Conventional Commits format messages.
+  const basePrompt = `You are an expert developer who writes precise ${convention.label} format commit messages.
 
 Please use the following output format:
 <thinking>
-[Analyze the purpose, impact and value of the code changes, think about the most appropriate commit type and scope]
+[Analyze the purpose, impact and value of the code changes, think about the most appropriate ${hasTypes ? 'commit type and scope' : convention.header === 'subsystem' ? 'subsystem prefix' : 'wording'}]
 </thinking>
 
 <result>
-[Only output the final commit message here, format: <type>[optional scope]: <description>]
+[Only output the final commit message here, format: ${format}]
 </result>
 
-MANDATORY FORMAT: <type>[optional scope]: <description>
+MANDATORY FORMAT: ${format}
 
 ${shouldUseDetailedFormat ? 
-`Due to large changes (${totalChanges} lines), add detailed explanation after blank line:
+`${totalChanges >= 100 ? `Due to large changes (${totalChanges} lines), add` : 'Add'} detailed explanation after blank line:
 - Use bullet points (- ) to describe specific changes
 - Each point should explain one concrete improvement or change
 - Highlight impact and value to users or system` 
 : 
 `Due to small changes (${totalChanges} lines), only provide a concise title line.`}
-
-TYPES (choose the most appropriate):
-- feat: new feature for the user
-- fix: bug fix for the user  
-- docs: documentation changes
-- style: formatting, missing semicolons, etc (no code change)
-- refactor: refactoring production code (no new features or fixes)
-- test: adding/updating tests (no production code change)
-- chore: build process, dependencies, tooling, etc (no production code change)
-- perf: performance improvements
-- ci: continuous integration changes
-- build: build system or dependencies changes
-- revert: reverting a previous commit
-
-SCOPE (optional but recommended):
-- Use parentheses: feat(auth): or fix(api):
-- Common scopes: api, ui, auth, db, config, deps, core, utils
-- Omit if change affects multiple areas
-
+${hasTypes ? `
+TYPES (choose the most appropriate${convention.header === 'gitmoji' ? ', use the emoji itself' : ''}):
+${convention.types.map(type => `- ${type.name}: ${type.description}`).join('\n')}
+` : ''}${convention.header === 'type-scope' || convention.header === 'gitmoji' ? `
+SCOPE (${convention.scopeRequired ? 'required' : 'optional but recommended'}):
+- Use parentheses: ${convention.header === 'gitmoji' ? '✨ (auth): or 🐛 (api):' : 'feat(auth): or fix(api):'}
+${convention.scopes.length > 0
+  ? `- Allowed scopes (use only these): ${convention.scopes.join(', ')}`
+  : '- Common scopes: api, ui, auth, db, config, deps, core, utils'}
+${convention.scopeRequired ? '' : '- Omit if change affects multiple areas\n'}` : ''}${convention.header === 'subsystem' ? `
+SUBSYSTEM (required):
+- Prefix the summary with the subsystem or component that was changed, followed by ": "
+- Use the module, directory or file name the change lives in (e.g. "auth:", "net/http:")
+${convention.scopes.length > 0 ? `- Allowed subsystems (use only these): ${convention.scopes.join(', ')}\n` : ''}` : ''}
 DESCRIPTION RULES:
 - Use imperative mood: "add" not "added" or "adds"
-- No capital letter after colon
-- No period at the end
-- 50 characters or less
+${convention.subjectCase === 'lower' ? '- No capital letter after colon\n' : convention.subjectCase === 'upper' ? '- Start with a capital letter\n' : ''}- No period at the end
+- ${convention.subjectMaxLength} characters or less
 - BE SPECIFIC: Include module/file/function names from the actual code changes
 - Describe WHAT and WHY, not HOW
 - Avoid vague terms like "optimize", "improve", "refactor" without specific context
-
+${convention.bodyRules.length > 0 ? `
+BODY RULES:
+${convention.bodyRules.map(rule => `- ${rule}`).join('\n')}
+- Wrap body lines at ${convention.bodyMaxLineLength} characters
+` : ''}${convention.footerRules.length > 0 ? `
+FOOTER RULES:
+${convention.footerRules.map(rule => `- ${rule}`).join('\n')}
+` : ''}
 EXAMPLE FORMATS:
 
 ${shouldUseDetailedFormat ? 
-`Detailed format (≥100 lines changed):
-✅ feat(cli): add virtual scrolling for file selection
-
-- Auto-detect terminal height and adapt display window
-- Implement smart scrolling with selected item always visible
-- Add Ctrl+A/E shortcuts for quick navigation to start/end
-- Display scroll indicators showing current range (1-20 of 150)
-- Optimize rendering performance for large file lists`
+`Detailed format${totalChanges >= 100 ? ' (≥100 lines changed)' : ''}:
+✅ ${convention.examples.detailed}`
 :
 `Concise format (<100 lines changed):
-✅ fix(auth): resolve null pointer in UserService.validate()
-✅ feat(converter): add HemaConverter.parseData() method
-✅ refactor(utils): extract formatDate() to DateUtils class`}
+${convention.examples.concise.map(example => `✅ ${example}`).join('\n')}`}
 
 SPECIFICITY EXAMPLES:
 Good (specific):
-✅ "feat(auth): add TokenExpiry enum and validation logic"
-✅ "fix(converter): handle null values in HemaConverter.parse()"
-✅ "refactor(data): extract SupTree.build() concurrency logic"
+${(convention.examples.good || convention.examples.concise).map(example => `✅ "${example.split('\n')[0]}"`).join('\n')}
 
 Bad (vague):
-❌ "feat: optimize enum type definitions and conversion logic"
-❌ "fix: improve data processing error handling mechanism"
-❌ "refactor: restructure data processing workflow"`;
+${convention.examples.bad.map(example => `❌ "${example}"`).join('\n')}`;
 
   // Add Chinese-specific requirements if language is Chinese
   if (language === 'zh') {
-    return basePrompt + `
+    const zhPrompt = basePrompt + `
 
 IMPORTANT FOR CHINESE OUTPUT:
-- Keep the type and scope in English (e.g., "feat", "fix", "api", "ui")
-- Write the description in Chinese using imperative form
+${convention.header === 'plain' ? '' : `- Keep the ${hasTypes ? 'type and scope' : 'subsystem prefix'} in English (e.g., ${hasTypes ? '"feat", "fix", "api", "ui"' : '"auth", "net/http"'})
+`}- Write the description in Chinese using imperative form
 - CRITICAL: Keep all code-related names in their original form (function names, variable names, file names, class names, enum values, etc.)
 - BE SPECIFIC: Include exact module/file/function names from code changes
 - Only translate the ACTION and PURPOSE, not the technical terms
 - Avoid vague terms without specific context (避免模糊术语)
-- Use Chinese bullet points (- ) for detailed explanations
+- Use Chinese bullet points (- ) for detailed explanations`;
 
-SPECIFICITY EXAMPLES (具体性示例):
-Good (具体的):
-✅ "feat(auth): 添加 TokenExpiry 枚举和验证逻辑"
-✅ "fix(converter): 修复 HemaConverter.parse() 空值处理"
-✅ "refactor(data): 重构 SupTree.build() 并发逻辑"
+    return zhPrompt + `
 
-Bad (模糊的):
-❌ "feat: 优化枚举类型定义和转换逻辑" (no specific names)
-❌ "fix: 改进数据处理的错误处理机制" (too vague)
-❌ "refactor: 重构数据处理流程" (no context)`;
+SPECIFICITY EXAMPLES (具体性示例):
+${createZhExamples(convention)}`;
   }
   
   return basePrompt;
 }
 
-export async function generateCommitMessage(diff: GitDiff): Promise<{ message: string; warnings: string[] }> {
-  const config = getConfig();
-  
-  if (!config.apiKey) {
-    throw new Error('OpenAI API key not configured. Please run with --config to set it up.');
+// Each repair is a short extra request, keep the worst case bounded
+const MAX_REPAIR_ATTEMPTS = 2;
+
+function extractResult(rawMessage: string): string {
+  // Extract content from <result> tags
+  const resultMatch = rawMessage.match(/<result>([\s\S]*?)<\/result>/);
+  return resultMatch ? resultMatch[1].trim() : rawMessage;
+}
+
+async function validateMessage(message: string, convention: Convention, warnings: string[]): Promise<string[]> {
+  const violations = validateCommitMessage(message, convention);
+  const lintResult = await lintCommitMessage(message);
+  if (lintResult) {
+    violations.push(...lintResult.errors.map(error => `commitlint: ${error}`));
+    lintResult.warnings
+      .filter(warning => !warnings.includes(warning))
+      .forEach(warning => warnings.push(warning));
+  }
+  return violations;
+}
+
+function createRepairPrompt(message: string, violations: string[], language: 'en' | 'zh'): string {
+  if (language === 'zh') {
+    return `下面的提交消息没有通过校验，请修正所有问题，同时保持原有含义和具体的代码名称。
+
+## 原提交消息
+${message}
+
+## 校验错误
+${violations.map(violation => `- ${violation}`).join('\n')}
+
+只在 <result></result> 中输出修正后的完整提交消息。`;
+  }
+
+  return `The following commit message failed validation. Fix every problem while keeping its meaning and the specific code names.
+
+## Original commit message
+${message}
+
+## Validation errors
+${violations.map(violation => `- ${violation}`).join('\n')}
+
+Output only the corrected, complete commit message inside <result></result>.`;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // Receives the raw model output generated so far, turns on streaming
+  onProgress?: (text: string) => void;
+  // Receives the state of every chunk while a large change is summarized
+  onChunkProgress?: (chunks: SummaryChunk[]) => void;
+  // Asks the model again instead of reusing a cached message; the new message replaces the cached one
+  refreshCache?: boolean;
+  // Receives a notice whenever a failed request is about to be retried
+  onRetry?: (notice: string) => void;
+}
+
+const MAX_COMPRESSION = 2;
+
+// Collects the notices of retries and fallbacks for the result's warnings, and logs the tokens of every
+// request the generation makes, chunk summaries and repairs included
+function createTrackedProvider(config: Config, onRetry?: (notice: string) => void) {
+  const notices: string[] = [];
+  const usage: UsageEntry[] = [];
+  const provider = createProvider(config, {
+    onRetry,
+    onFallback: notice => notices.push(notice),
+    onUsage: call => {
+      const entry = toUsageEntry(call);
+      recordUsage(entry);
+      usage.push(entry);
+    },
+  });
+  return { provider, notices, usage };
+}
+
+// The bundled tokenizer only approximates other vendors' counts, and deployments don't always allow the
+// documented context window: a prompt the model rejects as too long is built again around a smaller diff
+async function retryWithCompression<T>(notices: string[], attempt: (compression: number) => Promise<T>): Promise<T> {
+  for (let compression = 0; ; compression++) {
+    try {
+      return await attempt(compression);
+    } catch (error) {
+      if (compression >= MAX_COMPRESSION || classifyError(error) !== 'context-length') {
+        throw error;
+      }
+      notices.push(`The model rejected the prompt as too long, retried with ${COMPRESSION_FACTOR ** (compression + 1) * 100}% of the diff budget`);
+    }
+  }
+}
+
+// The prompts already carry the processed diff, the template and the language. An answer from a fallback is
+// stored under that fallback, so a later run asks the configured model again instead of reusing it.
+const getRequestKey = (config: Config, limits: ModelLimits, request: { system: string; prompt: string; temperature: number; count?: number; fallback?: string }) =>
+  getCacheKey({ provider: config.provider || 'openai', model: limits.model, ...request });
+
+// Feed violations back to the model; whatever survives is shown in the review stage
+async function repairMessage(
+  provider: LLMProvider,
+  system: string,
+  rawMessage: string,
+  convention: Convention,
+  language: 'en' | 'zh',
+  warnings: string[],
+  signal?: AbortSignal
+): Promise<CommitCandidate> {
+  let message = extractResult(rawMessage);
+  let violations = await validateMessage(message, convention, warnings);
+
+  for (let attempt = 1; violations.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let repairedMessage: string;
+    let repairedViolations: string[];
+    try {
+      const repair = await provider.complete({
+        system,
+        prompt: createRepairPrompt(message, violations, language),
+        temperature: 0.2,
+        maxTokens: 2000,
+        signal,
+      });
+      if (!repair.content) break;
+      repairedMessage = extractResult(repair.content);
+      repairedViolations = await validateMessage(repairedMessage, convention, warnings);
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      // The message was generated already, a failed repair only leaves its issues for the review stage
+      warnings.push(`Could not repair the commit message (attempt ${attempt}): ${error instanceof Error ? error.message : error}`);
+      break;
+    }
+
+    if (repairedViolations.length < violations.length) {
+      warnings.push(`Repaired commit message (attempt ${attempt}): fixed ${violations.length - repairedViolations.length} validation issue(s)`);
+    }
+    if (repairedViolations.length <= violations.length) {
+      message = repairedMessage;
+      violations = repairedViolations;
+    }
   }
 
-  const openai = new OpenAI({
-    apiKey: config.apiKey,
-    baseURL: config.baseUrl,
+  return { message, violations };
+}
+
+export async function generateCommitMessage(
+  diff: GitDiff,
+  options: GenerateOptions = {}
+): Promise<{ message: string; warnings: string[]; violations: string[]; excluded: ExcludedFile[]; cachedAt: number | null; usage: UsageTotals }> {
+  const config = getConfig();
+  const convention = resolveConvention(config.convention);
+  const language = config.language || 'en';
+
+  assertProviderConfigured(config);
+
+  const { provider, notices, usage } = createTrackedProvider(config, options.onRetry);
+  const system = createSystemPrompt(language, diff, convention);
+
+  return retryWithCompression(notices, async compression => {
+    const { prompt, warnings, excluded, limits } = await createCommitPrompt(diff, config, convention, system, provider, options, compression);
+
+    try {
+      const request = { system, prompt, temperature: 0.3 };
+      let fallback: string | undefined;
+      // The repaired message is cached, so a cached one never costs a repair round trip
+      const { value, cachedAt } = await withCache(config, getRequestKey(config, limits, request), async () => {
+        const completion = await provider.complete({
+          system,
+          prompt,
+          temperature: 0.3,
+          maxTokens: limits.outputTokens,
+          contextWindow: limits.contextWindow,
+          signal: options.signal,
+          onProgress: options.onProgress,
+        });
+
+        fallback = completion.fallback;
+        const rawMessage = completion.content;
+        if (!rawMessage) {
+          throw new Error('Failed to generate commit message');
+        }
+        return repairMessage(provider, system, rawMessage, convention, language, warnings, options.signal);
+      }, options.refreshCache, () => getRequestKey(config, limits, { ...request, fallback }));
+
+      // A cached message is checked again, the commitlint config may have changed since
+      const violations = cachedAt ? await validateMessage(value.message, convention, warnings) : value.violations;
+      return { message: value.message, warnings: [...warnings, ...notices], violations, excluded, cachedAt, usage: sumUsage(usage, config.pricing) };
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new ApiError(provider.label, error);
+      }
+      throw new Error('Unknown error occurred while generating commit message');
+    }
+  });
+}
+
+function createRejectedNote(rejected: string[], language: 'en' | 'zh'): string {
+  if (rejected.length === 0) return '';
+  const list = rejected.map(message => `- ${message.split('\n')[0]}`).join('\n');
+  return language === 'zh'
+    ? `\n\n## 已被拒绝的提交消息\n用户拒绝了以下建议，请写出明显不同的提交消息：\n${list}`
+    : `\n\n## Rejected Messages\nThe user rejected these suggestions, write a clearly different commit message:\n${list}`;
+}
+
+export async function generateCommitCandidates(
+  diff: GitDiff,
+  count: number,
+  rejected: string[] = [],
+  options: GenerateOptions = {}
+): Promise<{ candidates: CommitCandidate[]; warnings: string[]; excluded: ExcludedFile[]; cachedAt: number | null; usage: UsageTotals }> {
+  const config = getConfig();
+  const convention = resolveConvention(config.convention);
+  const language = config.language || 'en';
+
+  assertProviderConfigured(config);
+
+  const { provider, notices, usage } = createTrackedProvider(config, options.onRetry);
+  const system = createSystemPrompt(language, diff, convention);
+
+  return retryWithCompression(notices, async compression => {
+    const { prompt, warnings, excluded, limits } = await createCommitPrompt(diff, config, convention, system, provider, options, compression);
+
+    try {
+      const candidatePrompt = prompt + createRejectedNote(rejected, language);
+      // A higher temperature than for a single message, otherwise the candidates barely differ
+      const request = { system, prompt: candidatePrompt, temperature: 0.7, count };
+      let fallback: string | undefined;
+      const { value, cachedAt } = await withCache(config, getRequestKey(config, limits, request), async () => {
+        const completion = await completeCandidates(provider, {
+          system,
+          prompt: candidatePrompt,
+          temperature: 0.7,
+          maxTokens: limits.outputTokens,
+          contextWindow: limits.contextWindow,
+          signal: options.signal,
+        }, count);
+        fallback = completion.fallback;
+
+        const candidates: CommitCandidate[] = [];
+        for (const rawMessage of completion.choices.filter(Boolean)) {
+          candidates.push(await repairMessage(provider, system, rawMessage, convention, language, warnings, options.signal));
+        }
+        if (candidates.length === 0) {
+          throw new Error('Failed to generate commit message');
+        }
+        return candidates;
+      }, options.refreshCache, () => getRequestKey(config, limits, { ...request, fallback }));
+
+      if (!cachedAt) {
+        return { candidates: value, warnings: [...warnings, ...notices], excluded, cachedAt, usage: sumUsage(usage, config.pricing) };
+      }
+      const candidates: CommitCandidate[] = [];
+      for (const { message } of value) {
+        candidates.push({ message, violations: await validateMessage(message, convention, warnings) });
+      }
+      return { candidates, warnings: [...warnings, ...notices], excluded, cachedAt, usage: sumUsage(usage, config.pricing) };
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new ApiError(provider.label, error);
+      }
+      throw new Error('Unknown error occurred while generating commit messages');
+    }
   });
+}
+
+// Re-checks a message the user put together by hand, e.g. one merged from two candidates
+export async function checkCommitMessage(message: string): Promise<string[]> {
+  const convention = resolveConvention(getConfig().convention);
+  return validateMessage(message, convention, []);
+}
 
-  const { prompt, warnings } = await createCommitPrompt(diff, config);
+function createPlanSystemPrompt(language: 'en' | 'zh', convention: Convention): string {
+  const typeList = convention.types.length > 0
+    ? `\nTYPES: ${convention.types.map(type => type.name).join(', ')}`
+    : '';
 
+  return `You are an expert developer who splits a working tree full of unrelated changes into small, atomic commits, each with a precise ${convention.label} format message.
+
+Please use the following output format:
+<thinking>
+[Identify the separate logical changes and which files belong to each]
+</thinking>
+
+<result>
+[{"message": "<commit message>", "files": ["<path>", "..."]}, ...]
+</result>
+
+The result MUST be a JSON array and nothing else.
+
+GROUPING RULES:
+- Put files that belong to the same logical change in the same commit
+- Put unrelated changes in separate commits, but do not split a single change across commits
+- Every file must appear in exactly one commit, using the exact paths given
+- Order commits so each builds on the previous one (shared helpers and dependencies first)
+
+MESSAGE RULES:
+- Format: ${getFormatDescription(convention)}${typeList}
+- Imperative mood, no period at the end, ${convention.subjectMaxLength} characters or less
+- BE SPECIFIC: include module/file/function names from the actual changes
+- Only a title line, no body
+${language === 'zh' ? `- Write the description in Chinese, keep ${convention.header === 'plain' ? 'code names' : 'the prefix and code names'} in English` : ''}`;
+}
+
+function parseCommitPlan(rawMessage: string): CommitGroup[] {
+  const result = extractResult(rawMessage).replace(/^```(?:json)?\s*|\s*```$/g, '');
+  let parsed: unknown;
   try {
-    const completion = await openai.chat.completions.create({
-      model: config.model || 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: createSystemPrompt(config.language || 'en', diff),
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 8000,
-    });
+    parsed = JSON.parse(result);
+  } catch {
+    throw new Error('Failed to parse commit plan from model response');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Commit plan must be a JSON array');
+  }
+
+  return parsed
+    .filter(item => item && typeof item.message === 'string' && Array.isArray(item.files))
+    .map(item => ({
+      message: item.message.trim(),
+      files: item.files.filter((file: unknown) => typeof file === 'string'),
+    }));
+}
+
+export async function generateCommitPlan(diff: GitDiff): Promise<{ groups: CommitGroup[]; warnings: string[] }> {
+  const config = getConfig();
+  const convention = resolveConvention(config.convention);
+  const language = config.language || 'en';
+
+  assertProviderConfigured(config);
 
-    const rawMessage = completion.choices[0]?.message?.content?.trim();
-    if (!rawMessage) {
-      throw new Error('Failed to generate commit message');
+  const { provider, notices } = createTrackedProvider(config);
+  const system = createPlanSystemPrompt(language, convention);
+  const { content: projectContext, warnings: contextWarnings } = getProjectContext(config.secretPolicy);
+  const limits = getModelLimits(config);
+
+  let { groups, warnings } = await retryWithCompression(notices, async compression => {
+    const budget = computeDiffBudget(limits, [system, projectContext, diff.files.join('\n')], compression);
+    const processed = processDiffContent(prepareDiff(diff.content, config.secretPolicy, loadIgnoreMatcher(await getRepoRoot())), budget, limits);
+
+    const prompt = `Split the following changes into atomic commits.
+
+${projectContext ? `## Project Background Information
+${projectContext}
+
+` : ''}## Changed Files (${diff.files.length} files, +${diff.additions}/-${diff.deletions} lines)
+${diff.files.map(f => `- ${f}`).join('\n')}
+
+## Diff
+\`\`\`diff
+${processed.content}
+\`\`\`${processed.wasTruncated ? '\n\n⚠️ Note: Diff content truncated due to size limits - rely on file paths for grouping where needed.' : ''}`;
+
+    try {
+      const completion = await provider.complete({
+        system,
+        prompt,
+        temperature: 0.3,
+        maxTokens: limits.outputTokens,
+        contextWindow: limits.contextWindow,
+      });
+      if (!completion.content) {
+        throw new Error('Failed to generate commit plan');
+      }
+      return { groups: parseCommitPlan(completion.content), warnings: [...contextWarnings, ...processed.warnings] };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ApiError(provider.label, error);
+      }
+      throw new Error('Unknown error occurred while generating commit plan');
     }
+  });
+  warnings = [...warnings, ...notices];
 
-    // Extract content from <result> tags
-    const resultMatch = rawMessage.match(/<result>([\s\S]*?)<\/result>/);
-    const message = resultMatch ? resultMatch[1].trim() : rawMessage;
+  // The model is not trusted to cover every file exactly once
+  const seen = new Set<string>();
+  groups = groups
+    .map(group => ({
+      ...group,
+      files: group.files.filter(file => {
+        if (!diff.files.includes(file) || seen.has(file)) return false;
+        seen.add(file);
+        return true;
+      }),
+    }))
+    .filter(group => group.files.length > 0);
 
-    return { message, warnings };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`OpenAI API error: ${error.message}`);
+  const unassigned = diff.files.filter(file => !seen.has(file));
+  if (unassigned.length > 0) {
+    if (groups.length === 0) {
+      groups.push({ message: '', files: [] });
     }
-    throw new Error('Unknown error occurred while generating commit message');
+    groups[groups.length - 1].files.push(...unassigned);
+    warnings.push(`${unassigned.length} file${unassigned.length !== 1 ? 's were' : ' was'} not assigned by the model and added to the last commit`);
   }
+
+  return { groups, warnings };
+}
+
+function suggestSubsystem(files: string[]): string {
+  if (files.length === 0) return '';
+  if (files.length === 1) {
+    const parts = files[0].split('/');
+    const name = parts[parts.length - 1].replace(/\.[^.]+$/, '');
+    const parent = parts[parts.length - 2];
+    return parent && parent !== 'src' ? parent : name;
+  }
+
+  const dirs = files.map(f => f.split('/').slice(0, -1));
+  const common: string[] = [];
+  for (let i = 0; dirs.every(dir => i < dir.length && dir[i] === dirs[0][i]); i++) {
+    common.push(dirs[0][i]);
+  }
+  // "src" alone says nothing about the component
+  return common.filter(part => part !== 'src').slice(-2).join('/');
 }
 
 interface FileAnalysis {
@@ -283,7 +674,7 @@ interface FileAnalysis {
   changePattern: string;
 }
 
-function analyzeChangedFiles(files: string[]): FileAnalysis {
+function analyzeChangedFiles(files: string[], convention: Convention, profile: HistoryProfile | null = null): FileAnalysis {
   const categories: { name: string; files: string[] }[] = [];
   
   // Categorize files
@@ -301,18 +692,26 @@ function analyzeChangedFiles(files: string[]): FileAnalysis {
   if (styleFiles.length > 0) categories.push({ name: 'Styles', files: styleFiles });
   if (buildFiles.length > 0) categories.push({ name: 'Build/Deploy', files: buildFiles });
   
-  // Determine suggested type
-  let suggestedType = 'feat';
+  // Determine suggested type, then translate it into the convention's own type name
+  let intent: ChangeIntent = 'feat';
   if (testFiles.length > 0 && sourceFiles.length === 0) {
-    suggestedType = 'test';
+    intent = 'test';
   } else if (docFiles.length > 0 && sourceFiles.length === 0) {
-    suggestedType = 'docs';
+    intent = 'docs';
   } else if (configFiles.length > 0 && sourceFiles.length === 0) {
-    suggestedType = 'chore';
+    intent = 'chore';
   } else if (styleFiles.length > 0 && sourceFiles.length === 0) {
-    suggestedType = 'style';
+    intent = 'style';
   } else if (buildFiles.length > 0 && sourceFiles.length === 0) {
-    suggestedType = 'ci';
+    intent = 'ci';
+  }
+  let suggestedType = getTypeForIntent(convention, intent);
+
+  // The paths' own history knows better than the file patterns, for types only when the patterns had nothing specific
+  const history = profile ? suggestFromHistory(profile, files) : { type: null, scope: null };
+  const isKnownType = (type: string) => convention.types.length === 0 || convention.types.some(candidate => candidate.name === type);
+  if (intent === 'feat' && history.type && isKnownType(history.type)) {
+    suggestedType = history.type;
   }
   
   // Determine suggested scope
@@ -332,6 +731,17 @@ function analyzeChangedFiles(files: string[]): FileAnalysis {
   } else if (files.some(f => /\/core\/|\/lib\//.test(f))) {
     suggestedScope = 'core';
   }
+
+  if (convention.header === 'subsystem') {
+    // Kernel-style prefixes name the component, so use the deepest directory shared by all files
+    suggestedScope = suggestSubsystem(files) || suggestedScope;
+  }
+  if (history.scope) {
+    suggestedScope = history.scope;
+  }
+  if (convention.scopes.length > 0 && !convention.scopes.includes(suggestedScope)) {
+    suggestedScope = '';
+  }
   
   // Determine change pattern
   let changePattern = 'mixed changes';
@@ -360,22 +770,218 @@ function analyzeChangedFiles(files: string[]): FileAnalysis {
   };
 }
 
-async function createCommitPrompt(diff: GitDiff, config: Config): Promise<{ prompt: string; warnings: string[] }> {
-  const { files, additions, deletions, content } = diff;
+interface PromptContext {
+  prepared: PreparedDiff;
+  processed: ProcessedDiff;
+  limits: ModelLimits;
+  budget: number;
+  projectContext: string | null;
+  // Redactions in the project context, those in the diff are in prepared and processed
+  contextWarnings: string[];
+  fileAnalysis: FileAnalysis;
+  isLargeChange: boolean;
+}
+
+// Shared by every prompt that describes a set of changes: commit messages, pull requests.
+// fixedParts are the other variable sections of the prompt, the diff gets whatever room they leave.
+async function collectPromptContext(diff: GitDiff, config: Config, convention: Convention, fixedParts: string[], compression = 0): Promise<PromptContext> {
+  const { content: projectContext, warnings: contextWarnings } = getProjectContext(config.secretPolicy);
+  const limits = getModelLimits(config);
+  const budget = computeDiffBudget(limits, [...fixedParts, projectContext, diff.files.join('\n')], compression);
+  const prepared = prepareDiff(diff.content, config.secretPolicy, loadIgnoreMatcher(await getRepoRoot()));
+  const profile = await getHistoryProfile(convention);
+  const processed = processDiffContent(prepared, budget, limits);
+  // A regenerated lockfile alone shouldn't turn a small change into a large one
+  const excludedLines = processed.excluded.reduce((sum, file) => sum + file.additions + file.deletions, 0);
+  return {
+    prepared,
+    processed,
+    limits,
+    budget,
+    projectContext,
+    contextWarnings,
+    // Analyze file changes to suggest scope and type
+    fileAnalysis: analyzeChangedFiles(diff.files, convention, profile),
+    isLargeChange: diff.files.length - processed.excluded.length > 10 || diff.additions + diff.deletions - excludedLines > 500,
+  };
+}
+
+interface DiffChunk {
+  label: string;
+  files: string[];
+  content: string;
+}
+
+// Chunks of a large change are summarized side by side, but not so many at once that rate limits kick in
+const SUMMARY_CONCURRENCY = 4;
+
+// Smaller chunks than the model could take keep the summaries specific
+const MAX_CHUNK_TOKENS = 12_000;
+
+const MAX_SUMMARY_TOKENS = 600;
+const MIN_SUMMARY_TOKENS = 100;
+
+const CHUNK_SUMMARY_SYSTEM_PROMPT = `You summarize one part of a larger code change, so that a commit message for the whole change can be written from the summaries of all parts.
+
+- Describe what changed and, where the diff shows it, why, in 2-5 bullet points
+- Name the specific functions, classes, modules and files involved
+- Mention renames, moved code and changed behaviour explicitly
+- Do not write a commit message and do not speculate beyond the diff
+- Answer in English, output only the bullet points`;
+
+const getChunkLabel = (files: string[]): string => {
+  if (files.length === 1) return files[0];
+  const directories = files.map(file => file.split('/').slice(0, -1));
+  const common: string[] = [];
+  for (let i = 0; directories.every(parts => i < parts.length && parts[i] === directories[0][i]); i++) {
+    common.push(directories[0][i]);
+  }
+  const prefix = common.length > 0 ? common.join('/') + '/' : '';
+  // A directory split over several chunks stays tellable apart by the file names
+  return files.length <= 3
+    ? `${prefix}{${files.map(file => file.slice(prefix.length)).join(', ')}}`
+    : `${prefix || '(repository root) '}(${files.length} files)`;
+};
+
+// Files are packed in path order, so a chunk usually covers one directory; a file larger than a chunk is truncated
+function chunkDiff(sections: string[], chunkBudget: number): DiffChunk[] {
+  const sorted = sections
+    .map(section => ({ file: extractFileName(section), section, tokens: countTokens(section) }))
+    .sort((a, b) => a.file.localeCompare(b.file));
+
+  const groups: { files: string[]; contents: string[]; tokens: number }[] = [];
+  for (const { file, section, tokens } of sorted) {
+    const fits = tokens <= chunkBudget;
+    const content = fits ? section : fitDiffToBudget([section], chunkBudget).content;
+    const size = fits ? tokens : chunkBudget;
+    const current = groups[groups.length - 1];
+    if (current && current.tokens + size <= chunkBudget) {
+      current.files.push(file);
+      current.contents.push(content);
+      current.tokens += size;
+    } else {
+      groups.push({ files: [file], contents: [content], tokens: size });
+    }
+  }
+
+  return groups.map(group => ({ label: getChunkLabel(group.files), files: group.files, content: group.contents.join('') }));
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    // After the first failure no new requests are started, the result is lost anyway
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function summarizeChunks(
+  config: Config,
+  provider: LLMProvider,
+  chunks: DiffChunk[],
+  budget: number,
+  limits: ModelLimits,
+  options: GenerateOptions
+): Promise<string[]> {
+  // All summaries together have to fit where the diff would have gone
+  const maxTokens = Math.max(MIN_SUMMARY_TOKENS, Math.min(MAX_SUMMARY_TOKENS, Math.floor(budget / chunks.length)));
+  const states: SummaryChunk[] = chunks.map(chunk => ({ label: chunk.label, files: chunk.files, status: 'pending' }));
+  const report = (index: number, status: SummaryChunk['status']) => {
+    states[index] = { ...states[index], status };
+    options.onChunkProgress?.([...states]);
+  };
+  options.onChunkProgress?.([...states]);
+
+  return mapWithConcurrency(chunks, SUMMARY_CONCURRENCY, async (chunk, index) => {
+    report(index, 'running');
+    const prompt = `Summarize this part of the change (${chunk.label}):\n\n\`\`\`diff\n${chunk.content}\n\`\`\``;
+    try {
+      // Summaries are reused even when the message is regenerated, they describe the same diff either way
+      const request = { system: CHUNK_SUMMARY_SYSTEM_PROMPT, prompt, temperature: 0.2 };
+      let fallback: string | undefined;
+      const { value } = await withCache(config, getRequestKey(config, limits, request), async () => {
+        const completion = await provider.complete({ ...request, maxTokens, contextWindow: limits.contextWindow, signal: options.signal });
+        fallback = completion.fallback;
+        return completion.content.trim() || '(no summary)';
+      }, false, () => getRequestKey(config, limits, { ...request, fallback }));
+      report(index, 'done');
+      return value;
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      throw new ApiError(provider.label, error, ` while summarizing ${chunk.label}`);
+    }
+  });
+}
+
+// Messages the user rewrote for similar changes, so the model picks up the team's phrasing instead of repeating its mistakes
+async function getPastCorrections(config: Config, files: string[], scope: string): Promise<Correction[]> {
+  const count = config.correctionExamples ?? DEFAULT_CORRECTION_EXAMPLES;
+  if (count === 0) return [];
+  try {
+    return selectCorrections(loadCorrections(await getRepoRoot()), files, scope, count);
+  } catch {
+    // A damaged store only costs the examples
+    return [];
+  }
+}
 
-  const processed = processDiffContent(content);
-  const projectContext = getProjectContext();
-  const recentCommits = await getRecentCommits(10);
+function createCorrectionsSection(corrections: Correction[], language: 'en' | 'zh'): string {
+  if (corrections.length === 0) return '';
+  const describeFiles = (files: string[]) => files.slice(0, 5).join(', ') + (files.length > 5 ? ', …' : '');
+  const examples = corrections.map((correction, i) => language === 'zh'
+    ? `### 示例 ${i + 1}（${describeFiles(correction.files)}）\n生成的消息：\n\`\`\`\n${correction.generated}\n\`\`\`\n用户提交的消息：\n\`\`\`\n${correction.final}\n\`\`\``
+    : `### Example ${i + 1} (${describeFiles(correction.files)})\nGenerated:\n\`\`\`\n${correction.generated}\n\`\`\`\nCommitted by the user:\n\`\`\`\n${correction.final}\n\`\`\``
+  ).join('\n\n');
+  return language === 'zh'
+    ? `## 用户修正过的提交消息\n对于类似的变更，用户改写了生成的提交消息。请模仿用户的写法，不要重复被修正的问题：\n\n${examples}\n\n`
+    : `## Corrections From Similar Changes\nThe user rewrote these generated messages before committing. Write the way the user did and don't repeat what they corrected:\n\n${examples}\n\n`;
+}
 
-  // Analyze file changes to suggest scope and type
-  const fileAnalysis = analyzeChangedFiles(files);
-  const isLargeChange = files.length > 10 || additions + deletions > 500;
+async function createCommitPrompt(
+  diff: GitDiff,
+  config: Config,
+  convention: Convention,
+  system: string,
+  provider: LLMProvider,
+  options: GenerateOptions,
+  compression = 0
+): Promise<{ prompt: string; warnings: string[]; excluded: ExcludedFile[]; limits: ModelLimits }> {
+  const { files, additions, deletions } = diff;
+  const recentLog = protectContent(scanText((await getRecentCommits(10)).join('\n'), 'recent commits'), config.secretPolicy);
+  const recentCommits = recentLog.content.split('\n').filter(Boolean);
   const language = config.language || 'en';
+  const profile = await getHistoryProfile(convention);
+  const historySection = profile ? describeHistoryProfile(profile, files, convention, language) : '';
+  const corrections = await getPastCorrections(config, files, analyzeChangedFiles(files, convention, profile).suggestedScope);
+  const correctionsSection = protectContent(scanText(createCorrectionsSection(corrections, language), 'past corrections'), config.secretPolicy);
+  const { prepared, processed, limits, budget, projectContext, contextWarnings, fileAnalysis, isLargeChange } = await collectPromptContext(diff, config, convention, [system, ...recentCommits, historySection, correctionsSection.content], compression);
+
+  // Large changes are summarized part by part instead of being cut down to fit one prompt
+  const chunkBudget = Math.floor(Math.min(MAX_CHUNK_TOKENS, computeDiffBudget(limits, [CHUNK_SUMMARY_SYSTEM_PROMPT])) * COMPRESSION_FACTOR ** compression);
+  const chunks = isLargeChange ? chunkDiff(prepared.sections, chunkBudget) : [];
+  const summaries = chunks.length > 1 ? await summarizeChunks(config, provider, chunks, budget, limits, options) : null;
+  const warnings = [...(summaries ? prepared.warnings : processed.warnings), ...contextWarnings, ...recentLog.warnings, ...correctionsSection.warnings];
+  const scopeLabel = convention.header === 'subsystem' ? 'subsystem' : 'scope';
+  const scopeLabelZh = convention.header === 'subsystem' ? '子系统' : '作用域';
   
   let prompt: string;
   
   if (language === 'zh') {
-    prompt = `请详细分析以下代码变更，理解变更的目的和影响，然后生成一个准确的 Conventional Commits 提交消息。
+    prompt = `请详细分析以下代码变更，理解变更的目的和影响，然后生成一个准确的 ${convention.label} 格式提交消息。
 
 ${projectContext ? `## 项目背景信息
 ${projectContext}
@@ -383,22 +989,24 @@ ${projectContext}
 ` : ''}${recentCommits.length > 0 ? `## 近期提交记录
 ${recentCommits.map((commit, i) => `${i + 1}. ${commit}`).join('\n')}
 
-` : ''}## 项目上下文分析
+` : ''}${historySection}${correctionsSection.content}## 项目上下文分析
 变更规模：${files.length}个文件，+${additions}行/-${deletions}行
 变更类型：${fileAnalysis.changePattern}
-推荐commit类型：${fileAnalysis.suggestedType}
-${fileAnalysis.suggestedScope ? `推荐作用域：${fileAnalysis.suggestedScope}` : '作用域：无特定作用域'}
+${fileAnalysis.suggestedType ? `推荐commit类型：${fileAnalysis.suggestedType}\n` : ''}${fileAnalysis.suggestedScope ? `推荐${scopeLabelZh}：${fileAnalysis.suggestedScope}` : `${scopeLabelZh}：无特定${scopeLabelZh}`}
 
 ## 文件变更分析
 ${fileAnalysis.categories.map(cat => `### ${cat.name} (${cat.files.length}个文件)
 ${cat.files.map(f => `- ${f}`).join('\n')}`).join('\n\n')}
 
 ## 详细变更内容
-${isLargeChange ? 
-  `由于变更较大，请根据文件路径和分类来推断主要变更目的。重点关注：
-- 是否是新功能开发？
-- 是否是bug修复？
-- 是否是重构或优化？
+${summaries ? 
+  `由于变更较大，各部分已分别总结如下：
+
+${chunks.map((chunk, i) => `### ${chunk.label}\n${summaries[i]}`).join('\n\n')}
+
+基于以上各部分的总结分析：
+- 各部分之间的共同目的是什么？
+- 是新功能开发、bug修复，还是重构？
 - 影响的主要模块是什么？` 
   : 
   `请仔细分析以下diff内容，理解具体的代码变更：
@@ -419,7 +1027,7 @@ ${processed.content}
 - 清楚描述变更的核心目的和价值
 - 让人一眼就能看出改了什么`;
   } else {
-    prompt = `Please analyze the following code changes in detail, understand the purpose and impact of the changes, then generate an accurate Conventional Commits message.
+    prompt = `Please analyze the following code changes in detail, understand the purpose and impact of the changes, then generate an accurate ${convention.label} format commit message.
 
 ${projectContext ? `## Project Background Information
 ${projectContext}
@@ -427,22 +1035,24 @@ ${projectContext}
 ` : ''}${recentCommits.length > 0 ? `## Recent Commit History (for style reference)
 ${recentCommits.map((commit, i) => `${i + 1}. ${commit}`).join('\n')}
 
-` : ''}## Project Context Analysis
+` : ''}${historySection}${correctionsSection.content}## Project Context Analysis
 Change scale: ${files.length} files, +${additions}/-${deletions} lines
 Change pattern: ${fileAnalysis.changePattern}
-Suggested commit type: ${fileAnalysis.suggestedType}
-${fileAnalysis.suggestedScope ? `Suggested scope: ${fileAnalysis.suggestedScope}` : 'Scope: no specific scope'}
+${fileAnalysis.suggestedType ? `Suggested commit type: ${fileAnalysis.suggestedType}\n` : ''}${fileAnalysis.suggestedScope ? `Suggested ${scopeLabel}: ${fileAnalysis.suggestedScope}` : `Scope: no specific ${scopeLabel}`}
 
 ## File Change Analysis
 ${fileAnalysis.categories.map(cat => `### ${cat.name} (${cat.files.length} files)
 ${cat.files.map(f => `- ${f}`).join('\n')}`).join('\n\n')}
 
 ## Detailed Change Content
-${isLargeChange ? 
-  `Due to the large scale of changes, please infer the main purpose based on file paths and categories. Focus on:
-- Is this new feature development?
-- Is this a bug fix?
-- Is this refactoring or optimization?
+${summaries ? 
+  `Due to the large scale of changes, each part was summarized separately:
+
+${chunks.map((chunk, i) => `### ${chunk.label}\n${summaries[i]}`).join('\n\n')}
+
+Based on the summaries of all parts, analyze:
+- What common purpose connects the parts?
+- Is this new feature development, a bug fix or a refactoring?
 - What are the main modules affected?` 
   : 
   `Please carefully analyze the following diff content to understand the specific code changes:
@@ -464,7 +1074,7 @@ Based on the above analysis, generate a concise but accurate commit message that
 - Makes it obvious what was changed just by reading the message`;
   }
 
-  if (processed.wasTruncated) {
+  if (summaries ? prepared.wasTruncated : processed.wasTruncated) {
     const warningText = language === 'zh' ? 
       '\n\n⚠️ 注意：由于大小限制，diff内容已被截断 - 请关注文件模式和变更类型。' :
       '\n\n⚠️ Note: Diff content truncated due to size limits - focus on file patterns and change types.';
@@ -472,9 +1082,179 @@ Based on the above analysis, generate a concise but accurate commit message that
   }
 
   const finalInstructionText = language === 'zh' ?
-    '\n\n生成一个准确反映这些变更主要目的的 Conventional Commits 提交消息，必须包含具体的代码名称。' :
-    '\n\nGenerate a Conventional Commits message that accurately reflects the primary purpose of these changes with specific code names.';
+    `\n\n生成一个准确反映这些变更主要目的的 ${convention.label} 格式提交消息，必须包含具体的代码名称。` :
+    `\n\nGenerate a ${convention.label} format commit message that accurately reflects the primary purpose of these changes with specific code names.`;
   prompt += finalInstructionText;
 
-  return { prompt, warnings: processed.warnings };
-}
\ No newline at end of file
+  return { prompt, warnings, excluded: processed.excluded, limits };
+}
+export interface PullRequest {
+  title: string;
+  description: string;
+}
+
+const DEFAULT_PR_TEMPLATE = `## Summary
+
+## Changes
+
+## Testing
+
+## Risks`;
+
+function createPullRequestSystemPrompt(language: 'en' | 'zh', template: string | null): string {
+  return `You are an expert developer who writes clear pull request titles and descriptions for reviewers.
+
+Please use the following output format:
+<thinking>
+[Work out what the branch achieves as a whole, how the commits fit together, and what a reviewer should look at]
+</thinking>
+
+<result>
+<title on a single line>
+
+<markdown description>
+</result>
+
+TITLE RULES:
+- One line, imperative mood, no period at the end, 72 characters or less
+- Describe the outcome of the whole branch, not the last commit
+
+DESCRIPTION RULES:
+- GitHub flavoured markdown, following this template exactly, keep its headings and their order:
+${template ?? DEFAULT_PR_TEMPLATE}
+${template ? '- Fill in every section of the template, remove HTML comments and placeholder text' : `- Summary: two or three sentences on what changes and why
+- Changes: a bullet list of the notable changes, with SPECIFIC module/file/function names
+- Testing: how the changes were or should be tested, based on the tests in the diff; say so if there are none
+- Risks: what could break, migrations, config or API changes reviewers should double check; "None" if low risk`}
+- Do not invent ticket numbers, links or test results that are not in the changes
+${language === 'zh' ? '- Write the title and description in Chinese, keep code names in English' : ''}`;
+}
+
+function parsePullRequest(rawMessage: string): PullRequest {
+  const result = extractResult(rawMessage).replace(/^```(?:markdown|md)?\s*|\s*```$/g, '');
+  const [title = '', ...rest] = result.split('\n');
+  return {
+    // Models sometimes format the title as a heading despite the instructions
+    title: title.replace(/^#+\s*/, '').trim(),
+    description: rest.join('\n').trim(),
+  };
+}
+
+export async function generatePullRequest(
+  diff: GitDiff,
+  commits: { hash: string; message: string }[],
+  template: string | null,
+  options: GenerateOptions = {}
+): Promise<PullRequest & { warnings: string[]; usage: UsageTotals }> {
+  const config = getConfig();
+  const convention = resolveConvention(config.convention);
+  const language = config.language || 'en';
+
+  assertProviderConfigured(config);
+
+  const { provider, notices, usage } = createTrackedProvider(config, options.onRetry);
+  const protectedTemplate = template !== null ? protectContent(scanText(template, 'pull request template'), config.secretPolicy) : null;
+  const system = createPullRequestSystemPrompt(language, protectedTemplate?.content ?? null);
+  const commitLog = protectContent(
+    scanText(commits.map(commit => `### ${commit.hash.slice(0, 8)} ${commit.message.trim()}`).join('\n\n'), 'commit messages'),
+    config.secretPolicy
+  );
+
+  return retryWithCompression(notices, async compression => {
+    const { processed, limits, projectContext, contextWarnings, fileAnalysis } = await collectPromptContext(diff, config, convention, [system, commitLog.content], compression);
+    const warnings = [...processed.warnings, ...contextWarnings, ...commitLog.warnings, ...(protectedTemplate?.warnings ?? [])];
+
+    const prompt = `Write a pull request title and description for the following branch.
+
+${projectContext ? `## Project Background Information
+${projectContext}
+
+` : ''}## Commits (${commits.length}, oldest first)
+${commitLog.content}
+
+## Change Scale
+${diff.files.length} files, +${diff.additions}/-${diff.deletions} lines (${fileAnalysis.changePattern})
+
+## File Change Analysis
+${fileAnalysis.categories.map(cat => `### ${cat.name} (${cat.files.length} files)
+${cat.files.map(f => `- ${f}`).join('\n')}`).join('\n\n')}
+
+## Combined Diff
+\`\`\`diff
+${processed.content}
+\`\`\`${processed.wasTruncated ? '\n\n⚠️ Note: Diff content truncated due to size limits - rely on the commit messages where needed.' : ''}`;
+
+    try {
+      const completion = await provider.complete({
+        system,
+        prompt,
+        temperature: 0.3,
+        maxTokens: limits.outputTokens,
+        contextWindow: limits.contextWindow,
+        signal: options.signal,
+        onProgress: options.onProgress,
+      });
+      if (!completion.content) {
+        throw new Error('Failed to generate pull request description');
+      }
+
+      const pullRequest = parsePullRequest(completion.content);
+      if (!pullRequest.title) {
+        throw new Error('Model response did not contain a pull request title');
+      }
+      return { ...pullRequest, warnings: [...warnings, ...notices], usage: sumUsage(usage, config.pricing) };
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new ApiError(provider.label, error);
+      }
+      throw new Error('Unknown error occurred while generating pull request description');
+    }
+  });
+}
+
+// Rewrites a generated changelog section for end users without changing its structure
+export async function polishReleaseNotes(section: string): Promise<{ section: string; warnings: string[] }> {
+  const config = getConfig();
+  const language = config.language || 'en';
+
+  assertProviderConfigured(config);
+
+  const { provider, notices } = createTrackedProvider(config);
+  const { content, warnings } = protectContent(scanText(section, 'changelog'), config.secretPolicy);
+  const system = `You are a technical writer who turns changelogs generated from commit messages into release notes for end users.
+
+Please use the following output format:
+<result>
+[the rewritten changelog section in markdown]
+</result>
+
+RULES:
+- Keep the version heading and every section heading exactly as they are, in the same order
+- Keep one bullet per entry and the commit hash in parentheses at the end of each bullet
+- Rewrite each entry so a user understands what changed for them, in plain language and full sentences
+- Keep scope prefixes and **BREAKING:** markers
+- Do not add, merge or drop entries, and do not invent details that are not in the entry
+${language === 'zh' ? '- Write the entries in Chinese, keep headings, code names and hashes in English' : ''}`;
+
+  try {
+    const completion = await provider.complete({
+      system,
+      prompt: `Polish this changelog section:\n\n${content}`,
+      temperature: 0.3,
+      maxTokens: getModelLimits(config).outputTokens,
+    });
+    const polished = completion.content ? extractResult(completion.content).replace(/^```(?:markdown|md)?\s*|\s*```$/g, '') : '';
+    if (!polished) {
+      throw new Error('Failed to polish release notes');
+    }
+    return { section: polished.trim() + '\n', warnings: [...warnings, ...notices] };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new ApiError(provider.label, error);
+    }
+    throw new Error('Unknown error occurred while polishing release notes');
+  }
+}
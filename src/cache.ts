@@ -0,0 +1,177 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync, readdirSync, statSync, rmSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { Config } from './types.js';
+
+export const DEFAULT_CACHE_MAX_AGE_DAYS = 7;
+export const DEFAULT_CACHE_MAX_SIZE_MB = 20;
+
+export interface CacheStats {
+  path: string;
+  entries: number;
+  bytes: number;
+  // Requests that were answered from the cache instead of the provider
+  hits: number;
+  oldest: number | null;
+  newest: number | null;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  // When the value was generated, null when it was generated just now
+  cachedAt: number | null;
+}
+
+interface CacheEntry {
+  createdAt: number;
+  hits: number;
+  value: unknown;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let enabled = true;
+
+// --no-cache turns off reading and writing for the whole run
+export function disableCache(): void {
+  enabled = false;
+}
+
+export function getCacheDir(): string {
+  const home = homedir();
+  const base = process.platform === 'win32'
+    ? process.env.LOCALAPPDATA || join(home, 'AppData', 'Local')
+    : process.platform === 'darwin'
+      ? join(home, 'Library', 'Caches')
+      : process.env.XDG_CACHE_HOME || join(home, '.cache');
+  return join(base, 'one-commit');
+}
+
+// Where one-commit keeps data that should outlive the cache, like the usage log
+export function getDataDir(): string {
+  const home = homedir();
+  const base = process.platform === 'win32'
+    ? process.env.APPDATA || join(home, 'AppData', 'Roaming')
+    : process.platform === 'darwin'
+      ? join(home, 'Library', 'Application Support')
+      : process.env.XDG_DATA_HOME || join(home, '.local', 'share');
+  return join(base, 'one-commit');
+}
+
+// Everything that shapes the answer goes into the key: the prompts carry the processed diff,
+// the prompt template and the language, the rest is the model and how it is asked
+export function getCacheKey(parts: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+const getLimits = (config: Config) => ({
+  maxAge: (config.cacheMaxAge ?? DEFAULT_CACHE_MAX_AGE_DAYS) * DAY,
+  maxBytes: (config.cacheMaxSize ?? DEFAULT_CACHE_MAX_SIZE_MB) * 1024 * 1024,
+});
+
+const listEntries = (dir: string) => {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => {
+      const path = join(dir, name);
+      const stats = statSync(path);
+      return { path, bytes: stats.size, modified: stats.mtimeMs };
+    });
+};
+
+// Drops expired entries, then the least recently used ones until the cache is within its size limit
+export function pruneCache(config: Config): void {
+  const { maxAge, maxBytes } = getLimits(config);
+  const now = Date.now();
+  let total = 0;
+  const kept = listEntries(getCacheDir())
+    .filter(entry => {
+      if (now - entry.modified <= maxAge) return true;
+      rmSync(entry.path, { force: true });
+      return false;
+    })
+    // Newest first, so the oldest are the ones pushed over the limit
+    .sort((a, b) => b.modified - a.modified);
+  for (const entry of kept) {
+    total += entry.bytes;
+    if (total > maxBytes) {
+      rmSync(entry.path, { force: true });
+    }
+  }
+}
+
+const readEntry = (path: string): CacheEntry | null => {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+};
+
+// Returns the cached value for the key, or computes and stores it. With refresh the cached value is replaced.
+// A computed value goes under storeKey, asked once it is known, e.g. an answer from a fallback under that model.
+// The cache is an optimisation only: any error reading or writing it falls back to computing the value.
+export async function withCache<T>(
+  config: Config,
+  key: string,
+  compute: () => Promise<T>,
+  refresh = false,
+  storeKey: () => string = () => key
+): Promise<CachedValue<T>> {
+  const { maxAge } = getLimits(config);
+  if (!enabled || maxAge === 0) {
+    return { value: await compute(), cachedAt: null };
+  }
+
+  const path = join(getCacheDir(), `${key}.json`);
+  const entry = refresh ? null : readEntry(path);
+  if (entry && Date.now() - entry.createdAt <= maxAge) {
+    try {
+      writeFileSync(path, JSON.stringify({ ...entry, hits: entry.hits + 1 }));
+    } catch {
+      // Not being able to count the hit doesn't matter
+    }
+    return { value: entry.value as T, cachedAt: entry.createdAt };
+  }
+
+  const value = await compute();
+  try {
+    mkdirSync(getCacheDir(), { recursive: true });
+    writeFileSync(join(getCacheDir(), `${storeKey()}.json`), JSON.stringify({ createdAt: Date.now(), hits: 0, value }));
+    pruneCache(config);
+  } catch {
+    // A read-only or full disk only costs the next run a request
+  }
+  return { value, cachedAt: null };
+}
+
+export function clearCache(): number {
+  const entries = listEntries(getCacheDir());
+  entries.forEach(entry => rmSync(entry.path, { force: true }));
+  return entries.length;
+}
+
+export function getCacheStats(): CacheStats {
+  const entries = listEntries(getCacheDir()).map(entry => ({ ...entry, data: readEntry(entry.path) }));
+  const created = entries.map(entry => entry.data?.createdAt ?? entry.modified);
+  return {
+    path: getCacheDir(),
+    entries: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+    hits: entries.reduce((sum, entry) => sum + (entry.data?.hits ?? 0), 0),
+    oldest: created.length > 0 ? Math.min(...created) : null,
+    newest: created.length > 0 ? Math.max(...created) : null,
+  };
+}
+
+export function describeAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute${minutes !== 1 ? 's' : ''} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days !== 1 ? 's' : ''} ago`;
+}
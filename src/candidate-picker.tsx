@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Text, Box, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { CommitCandidate } from './types.js';
+import { RequestCancelledError } from './providers.js';
+
+interface CandidatePickerProps {
+  candidates: CommitCandidate[];
+  onPick: (message: string) => void;
+  onRegenerate: (indexes: number[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+const splitMessage = (message: string) => {
+  const [subject, ...rest] = message.split('\n');
+  return { subject, body: rest.join('\n').trim() };
+};
+
+const mergeMessages = (subjectSource: string, bodySource: string): string => {
+  const { subject } = splitMessage(subjectSource);
+  const { body } = splitMessage(bodySource);
+  return body ? `${subject}\n\n${body}` : subject;
+};
+
+export const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, onPick, onRegenerate, onCancel }) => {
+  const [focused, setFocused] = useState(0);
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [subjectFrom, setSubjectFrom] = useState<number | null>(null);
+  const [bodyFrom, setBodyFrom] = useState<number | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  const composed = mergeMessages(
+    candidates[subjectFrom ?? focused]?.message || '',
+    candidates[bodyFrom ?? focused]?.message || ''
+  );
+  const isMerged = (subjectFrom ?? focused) !== (bodyFrom ?? focused);
+
+  const regenerate = async () => {
+    const indexes = Array.from(rejected).sort((a, b) => a - b);
+    if (indexes.length === 0) {
+      setNotice("Mark the candidates you don't want with 'x' first");
+      return;
+    }
+    setRegenerating(true);
+    try {
+      await onRegenerate(indexes);
+      if (subjectFrom !== null && rejected.has(subjectFrom)) setSubjectFrom(null);
+      if (bodyFrom !== null && rejected.has(bodyFrom)) setBodyFrom(null);
+      setRejected(new Set());
+    } catch (err) {
+      // The kept candidates stay, and the rejected ones are still marked for another try
+      setNotice(err instanceof RequestCancelledError
+        ? 'Regeneration cancelled'
+        : `Failed to regenerate: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  useInput((input, key) => {
+    setNotice('');
+    if (key.leftArrow && focused > 0) {
+      setFocused(focused - 1);
+    } else if (key.rightArrow && focused < candidates.length - 1) {
+      setFocused(focused + 1);
+    } else if (/^[1-9]$/.test(input) && Number(input) <= candidates.length) {
+      setFocused(Number(input) - 1);
+    } else if (input === 's') {
+      setSubjectFrom(subjectFrom === focused ? null : focused);
+    } else if (input === 'b') {
+      setBodyFrom(bodyFrom === focused ? null : focused);
+    } else if (input === 'x' || input === ' ') {
+      const newRejected = new Set(rejected);
+      if (newRejected.has(focused)) {
+        newRejected.delete(focused);
+      } else {
+        newRejected.add(focused);
+      }
+      setRejected(newRejected);
+    } else if (input === 'r') {
+      regenerate();
+    } else if (key.return) {
+      onPick(composed);
+    } else if (key.escape || key.ctrl && input === 'c') {
+      onCancel();
+    }
+  }, { isActive: !regenerating });
+
+  const columns = Math.min(candidates.length, 3);
+
+  return (
+    <Box flexDirection="column">
+      <Text color="green" bold>Generated {candidates.length} candidate messages:</Text>
+      <Text color="gray">Use ←/→ or 1-{candidates.length} to choose, enter to use it, 's'/'b' to take the subject/body from this one</Text>
+      <Text color="gray">Press 'x' to reject a candidate, 'r' to regenerate the rejected ones, ESC to cancel{regenerating ? ' the regeneration' : ''}</Text>
+
+      <Box flexWrap="wrap" marginY={1}>
+        {candidates.map((candidate, index) => {
+          const isFocused = index === focused;
+          const isRejected = rejected.has(index);
+          const markers = [
+            subjectFrom === index ? 'subject' : '',
+            bodyFrom === index ? 'body' : '',
+          ].filter(Boolean);
+          return (
+            <Box
+              key={index}
+              flexDirection="column"
+              width={`${Math.floor(100 / columns)}%`}
+              borderStyle="round"
+              borderColor={isFocused ? 'blue' : isRejected ? 'red' : 'gray'}
+              paddingX={1}
+            >
+              <Text bold color={isFocused ? 'blue' : undefined}>
+                #{index + 1}
+                {markers.length > 0 && <Text color="green"> [{markers.join(' + ')}]</Text>}
+                {isRejected && <Text color="red"> ✗ rejected</Text>}
+              </Text>
+              {regenerating && isRejected ? (
+                <Text>
+                  <Spinner type="dots" /> Regenerating...
+                </Text>
+              ) : (
+                <Text dimColor={isRejected}>{candidate.message}</Text>
+              )}
+              {candidate.violations.length > 0 && (
+                <Text color="yellow">⚠️  {candidate.violations.length} issue{candidate.violations.length !== 1 ? 's' : ''}</Text>
+              )}
+            </Box>
+          );
+        })}
+      </Box>
+
+      {isMerged && (
+        <>
+          <Text color="cyan" bold>Merged message:</Text>
+          <Box borderStyle="single" borderColor="gray" paddingX={1}>
+            <Text>{composed}</Text>
+          </Box>
+        </>
+      )}
+      {notice && <Text color="yellow">{notice}</Text>}
+    </Box>
+  );
+};
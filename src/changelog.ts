@@ -0,0 +1,277 @@
+import chalk from 'chalk';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import * as git from './git.js';
+import * as ai from './ai.js';
+import { getConfig, hasValidConfig } from './config.js';
+import { Convention, ChangeIntent, resolveConvention, parseHeader } from './conventions.js';
+import { ExitCode } from './headless.js';
+import { SensitiveContentError } from './secrets.js';
+import { ApiError } from './providers.js';
+import { CommitLogEntry } from './types.js';
+
+export type ChangelogStyle = 'keepachangelog' | 'conventional';
+
+export const CHANGELOG_STYLES: ChangelogStyle[] = ['keepachangelog', 'conventional'];
+
+export interface ChangelogOptions {
+  from?: string;
+  version?: string;
+  style?: ChangelogStyle;
+  file?: string;
+  dryRun?: boolean;
+  polish?: boolean;
+}
+
+export interface ChangelogEntry {
+  hash: string;
+  intent: ChangeIntent | null;
+  scope: string | null;
+  description: string;
+  breaking: boolean;
+  // What the BREAKING CHANGE footer says, if anything beyond the subject
+  breakingNote: string | null;
+}
+
+export type BumpLevel = 'major' | 'minor' | 'patch';
+
+export interface VersionSuggestion {
+  version: string;
+  bump: BumpLevel;
+  reason: string;
+}
+
+interface Section {
+  title: string;
+  intents: (ChangeIntent | null)[];
+}
+
+// Commits of these kinds rarely matter to users, they are only listed when they break something
+const HIDDEN_INTENTS: ChangeIntent[] = ['docs', 'style', 'test', 'chore', 'ci', 'build'];
+
+const SECTIONS: Record<ChangelogStyle, Section[]> = {
+  keepachangelog: [
+    { title: 'Added', intents: ['feat'] },
+    { title: 'Fixed', intents: ['fix'] },
+    { title: 'Changed', intents: ['perf', 'refactor', null] },
+    { title: 'Removed', intents: ['revert'] },
+  ],
+  conventional: [
+    { title: 'Features', intents: ['feat'] },
+    { title: 'Bug Fixes', intents: ['fix'] },
+    { title: 'Performance Improvements', intents: ['perf'] },
+    { title: 'Code Refactoring', intents: ['refactor'] },
+    { title: 'Reverts', intents: ['revert'] },
+    { title: 'Other Changes', intents: [null] },
+  ],
+};
+
+const KEEP_A_CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+`;
+
+// git only recognises the hyphenated spelling as a trailer, Conventional Commits allow both
+const BREAKING_FOOTER = /^BREAKING[ -]CHANGE:\s*(.*)$/m;
+
+// Status output goes to stderr so stdout only ever carries the changelog section
+const log = (message: string) => {
+  process.stderr.write(message + '\n');
+};
+
+const INTENTS: ChangeIntent[] = ['feat', 'fix', 'docs', 'style', 'refactor', 'test', 'chore', 'perf', 'ci', 'build', 'revert'];
+
+// Custom and gitmoji types are mapped through the convention, anything else by its conventional name
+const getIntent = (type: string | null, convention: Convention): ChangeIntent | null => {
+  if (!type) return null;
+  const normalized = type.replace(/\uFE0F/g, '');
+  const known = convention.types.find(candidate => candidate.name.replace(/\uFE0F/g, '') === normalized);
+  if (known?.intent) return known.intent;
+  return INTENTS.includes(normalized as ChangeIntent) ? normalized as ChangeIntent : null;
+};
+
+export function parseLogEntry(entry: CommitLogEntry, convention: Convention): ChangelogEntry {
+  const header = parseHeader(entry.subject, convention);
+  const breakingTrailer = entry.trailers.find(trailer => trailer.key === 'BREAKING-CHANGE');
+  const breakingFooter = entry.body.match(BREAKING_FOOTER);
+
+  return {
+    hash: entry.hash,
+    intent: getIntent(header?.type ?? null, convention),
+    scope: header?.scope ?? null,
+    description: header?.subject ?? entry.subject,
+    breaking: !!header?.breaking || !!breakingTrailer || !!breakingFooter,
+    breakingNote: breakingTrailer?.value || breakingFooter?.[1].trim() || null,
+  };
+}
+
+const parseVersion = (version: string): [number, number, number] | null => {
+  const match = version.match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+};
+
+export function suggestNextVersion(current: string, entries: ChangelogEntry[]): VersionSuggestion {
+  const [major, minor, patch] = parseVersion(current) || [0, 0, 0];
+  const breaking = entries.filter(entry => entry.breaking).length;
+  const features = entries.filter(entry => entry.intent === 'feat').length;
+
+  // Before 1.0.0 the public API isn't stable yet, so breaking changes only bump the minor version
+  if (breaking > 0) {
+    return major === 0
+      ? { version: `0.${minor + 1}.0`, bump: 'minor', reason: `${breaking} breaking change${breaking !== 1 ? 's' : ''} before 1.0.0` }
+      : { version: `${major + 1}.0.0`, bump: 'major', reason: `${breaking} breaking change${breaking !== 1 ? 's' : ''}` };
+  }
+  if (features > 0) {
+    return { version: `${major}.${minor + 1}.0`, bump: 'minor', reason: `${features} new feature${features !== 1 ? 's' : ''}` };
+  }
+  return { version: `${major}.${minor}.${patch + 1}`, bump: 'patch', reason: 'fixes and other changes only' };
+}
+
+const formatEntry = (entry: ChangelogEntry, style: ChangelogStyle): string => {
+  const bullet = style === 'conventional' ? '*' : '-';
+  const scope = entry.scope ? `**${entry.scope}:** ` : '';
+  const breaking = entry.breaking && style === 'keepachangelog' ? '**BREAKING:** ' : '';
+  return `${bullet} ${breaking}${scope}${entry.description} (${entry.hash.slice(0, 7)})`;
+};
+
+export function renderSection(version: string, date: string, entries: ChangelogEntry[], style: ChangelogStyle): string {
+  const visible = entries.filter(entry => entry.breaking || !entry.intent || !HIDDEN_INTENTS.includes(entry.intent));
+  const lines = [style === 'conventional' ? `## ${version} (${date})` : `## [${version}] - ${date}`];
+
+  const breaking = visible.filter(entry => entry.breaking);
+  if (style === 'conventional' && breaking.length > 0) {
+    lines.push('', '### ⚠ BREAKING CHANGES', '');
+    breaking.forEach(entry => {
+      const scope = entry.scope ? `**${entry.scope}:** ` : '';
+      lines.push(`* ${scope}${entry.breakingNote || entry.description}`);
+    });
+  }
+
+  const sections = SECTIONS[style];
+  // Breaking commits of a hidden kind (e.g. a build change) land in the catch-all section
+  const sectionOf = (entry: ChangelogEntry) =>
+    sections.find(section => section.intents.includes(entry.intent)) ?? sections.find(section => section.intents.includes(null));
+
+  for (const section of sections) {
+    const sectionEntries = visible
+      .filter(entry => sectionOf(entry) === section)
+      // Breaking changes first, then grouped by scope
+      .sort((a, b) => Number(b.breaking) - Number(a.breaking) || (a.scope || '').localeCompare(b.scope || ''));
+    if (sectionEntries.length === 0) continue;
+    lines.push('', `### ${section.title}`, '');
+    sectionEntries.forEach(entry => lines.push(formatEntry(entry, style)));
+  }
+
+  if (lines.length === 1) {
+    lines.push('', style === 'conventional' ? '* Maintenance release' : '- Maintenance release');
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function detectStyle(content: string): ChangelogStyle | null {
+  if (/keepachangelog\.com|^## \[[^\]]+\] - /m.test(content)) return 'keepachangelog';
+  if (/^#{1,3} \[?\d+\.\d+\.\d+\]?(\([^)]*\))? \(\d{4}-\d{2}-\d{2}\)/m.test(content)) return 'conventional';
+  return null;
+}
+
+export function prependSection(content: string | null, section: string, style: ChangelogStyle): string {
+  if (!content || !content.trim()) {
+    const header = style === 'keepachangelog' ? KEEP_A_CHANGELOG_HEADER : '# Changelog\n';
+    return `${header}\n${section}`;
+  }
+
+  // New releases go above the previous release, but below the title, the preamble and an Unreleased section.
+  // conventional-changelog writes patch releases as level 3 headings.
+  const lines = content.split('\n');
+  let insertAt = lines.findIndex(line => /^#{2,3} \[?v?\d+\.\d+/.test(line));
+  if (insertAt === -1) {
+    insertAt = lines.findIndex(line => /^## /.test(line) && !/^## \[?Unreleased\]?/i.test(line));
+  }
+  if (insertAt === -1) {
+    return `${content.trimEnd()}\n\n${section}`;
+  }
+  return [...lines.slice(0, insertAt), section.trimEnd(), '', ...lines.slice(insertAt)].join('\n');
+}
+
+const readPackageVersion = (root: string): string | null => {
+  try {
+    const version = JSON.parse(readFileSync(join(root, 'package.json'), 'utf-8')).version;
+    return typeof version === 'string' && parseVersion(version) ? version : null;
+  } catch {
+    return null;
+  }
+};
+
+export async function runChangelog(options: ChangelogOptions): Promise<number> {
+  const isRepo = await git.isGitRepository();
+  if (!isRepo) {
+    log(chalk.red('❌ Error: Not a git repository'));
+    return ExitCode.ERROR;
+  }
+
+  if (options.version && !parseVersion(options.version)) {
+    log(chalk.red(`❌ Error: ${options.version} is not a semantic version (e.g. 1.2.3)`));
+    return ExitCode.ERROR;
+  }
+
+  const root = await git.getRepoRoot();
+  const from = options.from ?? await git.getLatestTag();
+  const entries = await git.getCommitLog({ range: from ? `${from}..HEAD` : 'HEAD', noMerges: true });
+  if (entries.length === 0) {
+    log(chalk.yellow(`No commits since ${from ?? 'the beginning of history'}`));
+    return ExitCode.NO_CHANGES;
+  }
+
+  const convention = resolveConvention(getConfig().convention);
+  // git log lists the newest commit first, the changelog reads better oldest first within a section
+  const parsed = entries.reverse().map(entry => parseLogEntry(entry, convention));
+
+  const currentVersion = (from && parseVersion(from) ? from.replace(/^v/, '') : null) ?? readPackageVersion(root) ?? '0.0.0';
+  const suggestion = suggestNextVersion(currentVersion, parsed);
+  const version = options.version?.replace(/^v/, '') ?? suggestion.version;
+
+  log(chalk.gray(`${parsed.length} commit${parsed.length !== 1 ? 's' : ''} since ${from ?? 'the first commit'}`));
+  log(chalk.cyan(`Suggested next version: ${suggestion.version} (${suggestion.bump}, ${suggestion.reason})`));
+
+  const filePath = join(root, options.file || 'CHANGELOG.md');
+  const existing = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null;
+  const style = options.style ?? (existing ? detectStyle(existing) : null) ?? 'keepachangelog';
+  const date = new Date().toISOString().slice(0, 10);
+
+  let section = renderSection(version, date, parsed, style);
+
+  if (options.polish) {
+    if (!hasValidConfig()) {
+      log(chalk.red('❌ Error: AI provider not configured. Please run with --config to set it up.'));
+      return ExitCode.ERROR;
+    }
+    try {
+      const polished = await ai.polishReleaseNotes(section);
+      polished.warnings.forEach(warning => log(chalk.yellow(`⚠️  ${warning}`)));
+      section = polished.section;
+    } catch (err) {
+      log(chalk.red(`❌ Error: ${err instanceof Error ? err.message : 'Failed to polish release notes'}`));
+      if (err instanceof ApiError && err.suggestion) {
+        log(chalk.gray(`💡 ${err.suggestion}`));
+      }
+      return err instanceof SensitiveContentError ? ExitCode.SENSITIVE_CONTENT : ExitCode.API_FAILURE;
+    }
+  }
+
+  if (options.dryRun) {
+    process.stdout.write(section);
+    return ExitCode.SUCCESS;
+  }
+
+  try {
+    writeFileSync(filePath, prependSection(existing, section, style));
+  } catch (err) {
+    log(chalk.red(`❌ Error: Failed to write ${filePath}: ${err instanceof Error ? err.message : err}`));
+    return ExitCode.ERROR;
+  }
+  log(chalk.green(`✅ Added ${version} to ${options.file || 'CHANGELOG.md'}`));
+  return ExitCode.SUCCESS;
+}
@@ -1,18 +1,42 @@
 #!/usr/bin/env node
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { render, Text, Box, Spacer, useInput } from 'ink';
 import Spinner from 'ink-spinner';
 import TextInput from 'ink-text-input';
 import SelectInput from 'ink-select-input';
-import { Command } from 'commander';
+import { Command, Option, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import * as git from './git.js';
 import * as ai from './ai.js';
-import { getConfig, setConfig, hasValidConfig } from './config.js';
-import { GitDiff } from './types.js';
+import { getConfig, setConfig, hasValidConfig, setCliOverrides, explainConfig, SECRET_KEYS, MAX_CANDIDATES, NUMERIC_RANGES } from './config.js';
+import { GitDiff, Config, ProviderName, StagingSelection, CommitCandidate, SummaryChunk } from './types.js';
+import { getTerminalHeight, getVisibleRange } from './scroll.js';
+import { PROVIDERS, PROVIDER_NAMES, ProviderField, ApiError, RequestCancelledError, DEFAULT_TIMEOUT_SECONDS, getProviderInfo, getFieldValue } from './providers.js';
+import { CONVENTIONS, CONVENTION_PRESETS, ConventionPreset, resolveConvention } from './conventions.js';
+import { runHeadless, isHeadless, ExitCode } from './headless.js';
+import { runPullRequest } from './pr.js';
+import { runChangelog, CHANGELOG_STYLES } from './changelog.js';
+import { SECRET_POLICIES } from './secrets.js';
+import { ExcludedFile, describeExcluded } from './ignore.js';
+import { installHook, uninstallHook, getHookStatus, runHook, HookStatus } from './hook.js';
+import { disableCache, clearCache, getCacheStats, describeAge } from './cache.js';
+import { UsageTotals, describeUsage } from './usage.js';
+import { runStats, DEFAULT_STATS_DAYS } from './stats.js';
+import { recordCorrection, loadCorrections, removeCorrections, pruneCorrections, MAX_STORED_CORRECTIONS } from './corrections.js';
+import { PlanFlow } from './plan-flow.js';
+import { RewordFlow } from './reword-flow.js';
+import { DiffPreview, FilePreview, splitDiffByFile } from './diff-preview.js';
+import { CandidatePicker } from './candidate-picker.js';
+import { GenerationView } from './generation-view.js';
+import { MessageEditor } from './message-editor.js';
+import { editInExternalEditor } from './editor.js';
+import { Hunk, FileDiff, HunkSelection, loadFileDiff, createSelection, countBlocks, getBlockIndexes, getSelectionState, buildPatch, stageSelection } from './hunks.js';
 
 interface AppProps {
   config?: boolean;
+  plan?: boolean;
+  amend?: boolean;
+  reword?: string;
 }
 
 interface ConfigSetupProps {
@@ -20,35 +44,26 @@ interface ConfigSetupProps {
 }
 
 interface CommitFlowProps {
+  amend?: boolean;
   onExit: () => void;
 }
 
 interface FileSelectProps {
   files: { modified: string[]; untracked: string[] };
-  onSubmit: (selectedFiles: string[]) => void;
+  onSubmit: (selection: StagingSelection) => void;
   onCancel: () => void;
 }
 
-// Helper functions for virtual scrolling
-const getTerminalHeight = (): number => {
-  return process.stdout.rows || 24;
-};
+type FileRow =
+  | { type: 'file'; file: string }
+  | { type: 'hunk'; file: string; hunk: number }
+  | { type: 'block'; file: string; hunk: number; block: number };
 
-const getVisibleRange = (selectedIndex: number, totalFiles: number, maxVisible: number) => {
-  if (totalFiles <= maxVisible) {
-    return { start: 0, end: totalFiles };
-  }
-  
-  const halfWindow = Math.floor(maxVisible / 2);
-  let start = Math.max(0, selectedIndex - halfWindow);
-  let end = Math.min(totalFiles, start + maxVisible);
-  
-  // Adjust window to utilize full space
-  if (end - start < maxVisible) {
-    start = Math.max(0, end - maxVisible);
-  }
-  
-  return { start, end };
+const describeHunk = (hunk: Hunk) => {
+  const added = hunk.lines.filter(line => line.startsWith('+')).length;
+  const removed = hunk.lines.filter(line => line.startsWith('-')).length;
+  const firstChange = hunk.lines.find(line => line.startsWith('+') || line.startsWith('-')) || '';
+  return `@@ -${hunk.oldStart} +${hunk.newStart} @@ (+${added} -${removed}) ${firstChange.slice(0, 50)}`;
 };
 
 const FileSelector: React.FC<FileSelectProps> = ({ files, onSubmit, onCancel }) => {
@@ -58,41 +73,167 @@ const FileSelector: React.FC<FileSelectProps> = ({ files, onSubmit, onCancel })
   
   // Calculate display window
   const terminalHeight = getTerminalHeight();
-  const reservedLines = 12; // Title, help text, stats, spacing, scroll indicator
+  const reservedLines = 13; // Title, help text, stats, notice, spacing, scroll indicator
   const maxVisibleFiles = Math.max(5, terminalHeight - reservedLines);
   
   const [selectedIndex, setSelectedIndex] = useState(0);
   // Default to only modified files selected (exclude new files)
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set(files.modified));
+  // Hunk level state only exists for files that have been expanded at least once
+  const [fileDiffs, setFileDiffs] = useState<Record<string, FileDiff>>({});
+  const [hunkSelections, setHunkSelections] = useState<Record<string, HunkSelection>>({});
+  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
+  const [splitHunks, setSplitHunks] = useState<Set<string>>(new Set());
+  const [notice, setNotice] = useState('');
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+
+  const rows: FileRow[] = allFiles.flatMap(file => {
+    const fileRows: FileRow[] = [{ type: 'file', file }];
+    const diff = fileDiffs[file];
+    if (expandedFiles.has(file) && diff) {
+      diff.hunks.forEach((hunk, hunkIndex) => {
+        fileRows.push({ type: 'hunk', file, hunk: hunkIndex });
+        if (splitHunks.has(`${file}:${hunkIndex}`)) {
+          for (let block = 0; block < countBlocks(hunk); block++) {
+            fileRows.push({ type: 'block', file, hunk: hunkIndex, block });
+          }
+        }
+      });
+    }
+    return fileRows;
+  });
+  const row = rows[selectedIndex];
+
+  const updateHunkSelection = (file: string, selection: HunkSelection) => {
+    setHunkSelections({ ...hunkSelections, [file]: selection });
+    const newSelected = new Set(selectedFiles);
+    if (getSelectionState(selection) === 'none') {
+      newSelected.delete(file);
+    } else {
+      newSelected.add(file);
+    }
+    setSelectedFiles(newSelected);
+  };
+
+  const expandFile = async (file: string) => {
+    if (!files.modified.includes(file)) {
+      setNotice('New files can only be staged as a whole');
+      return;
+    }
+    try {
+      const diff = fileDiffs[file] || await loadFileDiff(file);
+      if (!diff) {
+        setNotice(`${file} can only be staged as a whole`);
+        return;
+      }
+      setFileDiffs(previous => ({ ...previous, [file]: diff }));
+      setHunkSelections(previous => previous[file] ? previous : { ...previous, [file]: createSelection(diff, selectedFiles.has(file)) });
+      setExpandedFiles(previous => new Set(previous).add(file));
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to load hunks');
+    }
+  };
+
+  const collapseFile = (file: string) => {
+    const newExpanded = new Set(expandedFiles);
+    newExpanded.delete(file);
+    setExpandedFiles(newExpanded);
+    setSelectedIndex(rows.findIndex(candidate => candidate.type === 'file' && candidate.file === file));
+  };
+
+  const toggleRow = (current: FileRow) => {
+    if (current.type === 'file') {
+      // Toggle individual file
+      const newSelected = new Set(selectedFiles);
+      const checked = newSelected.has(current.file);
+      if (checked) {
+        newSelected.delete(current.file);
+      } else {
+        newSelected.add(current.file);
+      }
+      setSelectedFiles(newSelected);
+      if (fileDiffs[current.file]) {
+        setHunkSelections({ ...hunkSelections, [current.file]: createSelection(fileDiffs[current.file], !checked) });
+      }
+      return;
+    }
+
+    const selection = hunkSelections[current.file].map(blocks => [...blocks]);
+    if (current.type === 'hunk') {
+      const checked = selection[current.hunk].every(Boolean);
+      selection[current.hunk] = selection[current.hunk].map(() => !checked);
+    } else {
+      selection[current.hunk][current.block] = !selection[current.hunk][current.block];
+    }
+    updateHunkSelection(current.file, selection);
+  };
+
+  const handleSubmit = () => {
+    const selection: StagingSelection = { files: [], patches: [] };
+    for (const file of selectedFiles) {
+      const diff = fileDiffs[file];
+      const hunkSelection = hunkSelections[file];
+      if (diff && hunkSelection && getSelectionState(hunkSelection) === 'partial') {
+        const patch = buildPatch(diff, hunkSelection);
+        if (patch) selection.patches.push(patch);
+      } else {
+        selection.files.push(file);
+      }
+    }
+    onSubmit(selection);
+  };
+
+  const openPreview = async (file: string) => {
+    try {
+      const content = files.modified.includes(file) ? await git.getFileDiff(file) : await git.getUntrackedFileDiff(file);
+      setPreview({ file, content });
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to load diff');
+    }
+  };
 
   useInput((input, key) => {
+    setNotice('');
     if (key.upArrow && selectedIndex > 0) {
       setSelectedIndex(selectedIndex - 1);
-    } else if (key.downArrow && selectedIndex < allFiles.length - 1) {
+    } else if (key.downArrow && selectedIndex < rows.length - 1) {
       setSelectedIndex(selectedIndex + 1);
     } else if (key.ctrl && input === 'a') {
       // Ctrl+A: Jump to beginning
       setSelectedIndex(0);
     } else if (key.ctrl && input === 'e') {
       // Ctrl+E: Jump to end
-      setSelectedIndex(allFiles.length - 1);
-    } else if (input === ' ') {
-      // Toggle individual file
-      const file = allFiles[selectedIndex];
-      const newSelected = new Set(selectedFiles);
-      if (newSelected.has(file)) {
-        newSelected.delete(file);
+      setSelectedIndex(rows.length - 1);
+    } else if (key.rightArrow && row?.type === 'file') {
+      // Expand into hunks
+      expandFile(row.file);
+    } else if (key.leftArrow && row && (row.type !== 'file' || expandedFiles.has(row.file))) {
+      collapseFile(row.file);
+    } else if (input === 's' && row?.type === 'hunk') {
+      // Split the hunk into its separate blocks of changes, like `git add -p`
+      const hunkKey = `${row.file}:${row.hunk}`;
+      const newSplit = new Set(splitHunks);
+      if (newSplit.has(hunkKey)) {
+        newSplit.delete(hunkKey);
+      } else if (countBlocks(fileDiffs[row.file].hunks[row.hunk]) > 1) {
+        newSplit.add(hunkKey);
       } else {
-        newSelected.add(file);
+        setNotice('This hunk cannot be split further');
       }
-      setSelectedFiles(newSelected);
+      setSplitHunks(newSplit);
+    } else if (input === ' ' && row) {
+      toggleRow(row);
+    } else if (input === 'v' && row) {
+      openPreview(row.file);
     } else if (input === 'a' || input === 'A') {
       // Select All hotkey (including all untracked files)
       const allAvailableFiles = [...files.modified, ...files.untracked];
       setSelectedFiles(new Set(allAvailableFiles));
+      setHunkSelections(Object.fromEntries(Object.entries(fileDiffs).map(([file, diff]) => [file, createSelection(diff, true)])));
     } else if (input === 'd' || input === 'D') {
       // Deselect All hotkey
       setSelectedFiles(new Set());
+      setHunkSelections(Object.fromEntries(Object.entries(fileDiffs).map(([file, diff]) => [file, createSelection(diff, false)])));
     } else if (input === 'm' || input === 'M') {
       // Toggle show more new files
       if (files.untracked.length > 10) {
@@ -100,43 +241,73 @@ const FileSelector: React.FC<FileSelectProps> = ({ files, onSubmit, onCancel })
       }
     } else if (key.return) {
       if (selectedFiles.size > 0) {
-        onSubmit(Array.from(selectedFiles));
+        handleSubmit();
       }
     } else if (key.escape || key.ctrl && input === 'c') {
       onCancel();
     }
-  });
+  }, { isActive: !preview });
 
   // Calculate visible range for virtual scrolling
-  const { start: visibleStart, end: visibleEnd } = getVisibleRange(selectedIndex, allFiles.length, maxVisibleFiles);
-  const visibleFiles = allFiles.slice(visibleStart, visibleEnd);
+  const { start: visibleStart, end: visibleEnd } = getVisibleRange(selectedIndex, rows.length, maxVisibleFiles);
+  const visibleRows = rows.slice(visibleStart, visibleEnd);
   
-  // Helper function to render a single file
-  const renderFile = (file: string, index: number) => {
+  // Helper function to render a single row
+  const renderRow = (current: FileRow, index: number) => {
     const isSelected = selectedIndex === index;
-    const isChecked = selectedFiles.has(file);
-    const isModified = files.modified.includes(file);
-    
+    const cursor = isSelected ? '❯ ' : '  ';
+
+    if (current.type === 'file') {
+      const { file } = current;
+      const isModified = files.modified.includes(file);
+      const state = hunkSelections[file] ? getSelectionState(hunkSelections[file]) : selectedFiles.has(file) ? 'all' : 'none';
+      return (
+        <Text key={file} color={isSelected ? 'blue' : 'white'}>
+          {cursor}
+          {state === 'all' ? '[✓]' : state === 'partial' ? '[~]' : '[ ]'}
+          {isModified ? '📝' : '➕'} {file}
+          {state === 'partial' && <Text color="gray"> (partial)</Text>}
+        </Text>
+      );
+    }
+
+    const hunk = fileDiffs[current.file].hunks[current.hunk];
+    const blocks = hunkSelections[current.file][current.hunk];
+    if (current.type === 'hunk') {
+      const state = blocks.every(Boolean) ? '[✓]' : blocks.some(Boolean) ? '[~]' : '[ ]';
+      return (
+        <Text key={`${current.file}:${current.hunk}`} color={isSelected ? 'blue' : 'gray'}>
+          {cursor}    {state} {describeHunk(hunk)}
+        </Text>
+      );
+    }
+
+    const blockIndexes = getBlockIndexes(hunk);
+    const blockLines = hunk.lines.filter((_, lineIndex) => blockIndexes[lineIndex] === current.block && !hunk.lines[lineIndex].startsWith('\\'));
     return (
-      <Text key={file} color={isSelected ? 'blue' : 'white'}>
-        {isSelected ? '❯ ' : '  '}
-        {isChecked ? '[✓]' : '[ ]'}
-        {isModified ? '📝' : '➕'} {file}
+      <Text key={`${current.file}:${current.hunk}:${current.block}`} color={isSelected ? 'blue' : 'gray'}>
+        {cursor}        {blocks[current.block] ? '[✓]' : '[ ]'} {blockLines[0].slice(0, 60)}
+        {blockLines.length > 1 ? ` (+${blockLines.length - 1} more line${blockLines.length > 2 ? 's' : ''})` : ''}
       </Text>
     );
   };
 
+  if (preview) {
+    return <DiffPreview previews={[preview]} onClose={() => setPreview(null)} />;
+  }
+
   return (
     <Box flexDirection="column">
       <Text color="cyan" bold>Select files to stage:</Text>
       <Text color="gray">Use ↑/↓ to navigate, space to select/deselect, enter to confirm</Text>
+      <Text color="gray">Press →/← to expand/collapse a file into hunks, 's' to split a hunk, 'v' to view the diff</Text>
       <Text color="gray">Press 'a' to select all, 'd' to deselect all, Ctrl+A/E for start/end{files.untracked.length > 10 ? ", 'm' to show more new files" : ""}</Text>
       <Text></Text>
       
       {/* Scroll indicator */}
-      {allFiles.length > maxVisibleFiles && (
+      {rows.length > maxVisibleFiles && (
         <>
-          <Text color="gray">Showing {visibleStart + 1}-{visibleEnd} of {allFiles.length} files</Text>
+          <Text color="gray">Showing {visibleStart + 1}-{visibleEnd} of {rows.length} rows</Text>
           <Text></Text>
         </>
       )}
@@ -147,9 +318,9 @@ const FileSelector: React.FC<FileSelectProps> = ({ files, onSubmit, onCancel })
         let modifiedHeaderShown = false;
         let newFilesHeaderShown = false;
         
-        visibleFiles.forEach((file, localIndex) => {
+        visibleRows.forEach((current, localIndex) => {
           const globalIndex = visibleStart + localIndex;
-          const isModified = files.modified.includes(file);
+          const isModified = files.modified.includes(current.file);
           
           // Show "Modified files:" header before first modified file
           if (isModified && !modifiedHeaderShown && files.modified.length > 0) {
@@ -170,15 +341,15 @@ const FileSelector: React.FC<FileSelectProps> = ({ files, onSubmit, onCancel })
             newFilesHeaderShown = true;
           }
           
-          // Add the file
-          elements.push(renderFile(file, globalIndex));
+          // Add the row
+          elements.push(renderRow(current, globalIndex));
         });
         
         return elements;
       })()}
       
       {/* Show more new files indicator */}
-      {files.untracked.length > 10 && !showAllNewFiles && visibleEnd >= files.modified.length + 10 && (
+      {files.untracked.length > 10 && !showAllNewFiles && visibleEnd >= rows.length && (
         <Text color="gray">
           ... and {files.untracked.length - 10} more new files (press 'm' to show all)
         </Text>
@@ -188,6 +359,7 @@ const FileSelector: React.FC<FileSelectProps> = ({ files, onSubmit, onCancel })
       <Text color="gray">
         Selected: {selectedFiles.size}/{files.modified.length + files.untracked.length} file{selectedFiles.size !== 1 ? 's' : ''}
       </Text>
+      {notice && <Text color="yellow">{notice}</Text>}
       <Text color="gray">Press ESC or Ctrl+C to cancel</Text>
     </Box>
   );
@@ -197,99 +369,129 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onComplete }) => {
   const existingConfig = getConfig();
   const hasExistingConfig = hasValidConfig();
   
-  const [step, setStep] = useState<'menu' | 'api-key' | 'base-url' | 'model' | 'language' | 'done'>(
-    hasExistingConfig ? 'menu' : 'api-key'
+  const [step, setStep] = useState<'menu' | 'provider' | 'field' | 'model' | 'language' | 'convention' | 'candidates' | 'timeout' | 'done'>(
+    hasExistingConfig ? 'menu' : 'provider'
   );
-  const [apiKey, setApiKey] = useState(existingConfig.apiKey || '');
-  const [baseUrl, setBaseUrl] = useState(existingConfig.baseUrl || 'https://api.openai.com/v1');
-  const [model, setModel] = useState(existingConfig.model || 'gpt-4o-mini');
-  const [language, setLanguage] = useState<'en' | 'zh'>(existingConfig.language || 'en');
+  // Guided mode walks through every setting (first run or after switching provider)
+  const [guided, setGuided] = useState(!hasExistingConfig);
+  const [values, setValues] = useState<Config>(existingConfig);
+  const [fieldIndex, setFieldIndex] = useState(0);
+  const [inputValue, setInputValue] = useState('');
+  // Settings entered on these screens. Values from flags, environment variables or the repository config
+  // only show up here and are never written to the global store.
+  const picked = useRef(new Set<keyof Config>());
+
+  const providerInfo = getProviderInfo(values);
+  const currentField = providerInfo.fields[fieldIndex];
+
+  const saveAndFinish = (newValues: Config) => {
+    setConfig(Object.fromEntries([...picked.current].map(key => [key, newValues[key]])));
+    onComplete();
+  };
+
+  const editField = (index: number, source: Config) => {
+    const field = getProviderInfo(source).fields[index];
+    setFieldIndex(index);
+    setInputValue(getFieldValue(source, field) || '');
+    setStep('field');
+  };
+
+  const editModel = (source: Config) => {
+    setInputValue(source.model || getProviderInfo(source).defaultModel);
+    setStep('model');
+  };
 
   const handleMenuSelect = (item: { value: string }) => {
-    if (item.value === 'api-key') {
-      setStep('api-key');
-    } else if (item.value === 'base-url') {
-      setStep('base-url');
+    if (item.value === 'provider') {
+      setStep('provider');
     } else if (item.value === 'model') {
-      setStep('model');
+      editModel(values);
     } else if (item.value === 'language') {
       setStep('language');
+    } else if (item.value === 'convention') {
+      setStep('convention');
+    } else if (item.value === 'candidates') {
+      setStep('candidates');
+    } else if (item.value === 'timeout') {
+      setInputValue(String(values.timeout ?? DEFAULT_TIMEOUT_SECONDS));
+      setStep('timeout');
     } else if (item.value === 'done') {
       onComplete();
+    } else if (item.value.startsWith('field:')) {
+      editField(Number(item.value.slice('field:'.length)), values);
     }
   };
 
-  const saveConfigAndFinish = () => {
-    setConfig({
-      apiKey,
-      baseUrl,
-      model,
-      language,
-    });
-    
-    setStep('done');
-    setTimeout(onComplete, 1000);
-  };
-
-  const handleApiKeySubmit = (value: string) => {
-    setApiKey(value);
-    if (hasExistingConfig) {
-      setConfig({
-        apiKey: value,
-        baseUrl,
-        model,
-        language,
-      });
-      onComplete();
-    } else {
-      setStep('base-url');
-    }
+  const handleProviderSelect = (item: { value: ProviderName }) => {
+    const newValues: Config = {
+      ...values,
+      provider: item.value,
+      // A model name from another vendor is almost never valid, start from the provider default
+      model: item.value === values.provider ? values.model : PROVIDERS[item.value].defaultModel,
+    };
+    setValues(newValues);
+    setGuided(true);
+    picked.current.add('provider');
+    editField(0, newValues);
   };
 
-  const handleBaseUrlSubmit = (value: string) => {
-    const newBaseUrl = value || 'https://api.openai.com/v1';
-    setBaseUrl(newBaseUrl);
-    if (hasExistingConfig) {
-      setConfig({
-        apiKey,
-        baseUrl: newBaseUrl,
-        model,
-        language,
-      });
-      onComplete();
+  const handleFieldSubmit = (value: string) => {
+    const newValue = value || currentField.defaultValue || '';
+    if (currentField.required && !newValue) return;
+
+    const newValues = { ...values, [currentField.key]: newValue };
+    setValues(newValues);
+    picked.current.add(currentField.key);
+
+    if (!guided) {
+      saveAndFinish(newValues);
+    } else if (fieldIndex < providerInfo.fields.length - 1) {
+      editField(fieldIndex + 1, newValues);
     } else {
-      setStep('model');
+      editModel(newValues);
     }
   };
 
   const handleModelSubmit = (value: string) => {
-    const newModel = value || 'gpt-4o-mini';
-    setModel(newModel);
-    if (hasExistingConfig) {
-      setConfig({
-        apiKey,
-        baseUrl,
-        model: newModel,
-        language,
-      });
-      onComplete();
-    } else {
+    const newValues = { ...values, model: value || providerInfo.defaultModel };
+    setValues(newValues);
+    picked.current.add('model');
+
+    if (guided && !hasExistingConfig) {
       setStep('language');
+    } else {
+      saveAndFinish(newValues);
     }
   };
 
   const handleLanguageSelect = (item: { value: 'en' | 'zh' }) => {
-    setLanguage(item.value);
-    
     // Save config immediately with the new language value
-    setConfig({
-      apiKey,
-      baseUrl,
-      model,
-      language: item.value, // Use the new value directly
-    });
-    
-    onComplete();
+    picked.current.add('language');
+    saveAndFinish({ ...values, language: item.value });
+  };
+
+  const handleConventionSelect = (item: { value: ConventionPreset }) => {
+    picked.current.add('convention');
+    saveAndFinish({ ...values, convention: item.value });
+  };
+
+  const handleCandidatesSelect = (item: { value: number }) => {
+    picked.current.add('candidates');
+    saveAndFinish({ ...values, candidates: item.value });
+  };
+
+  const handleTimeoutSubmit = (value: string) => {
+    const seconds = Number(value || DEFAULT_TIMEOUT_SECONDS);
+    const [min, max] = NUMERIC_RANGES.timeout!;
+    if (!Number.isInteger(seconds) || seconds < min || seconds > max) return;
+    picked.current.add('timeout');
+    saveAndFinish({ ...values, timeout: seconds });
+  };
+
+  const formatFieldValue = (field: ProviderField) => {
+    const value = getFieldValue(values, field);
+    if (!value) return 'Not set';
+    return field.secret ? '***' + value.slice(-4) : value;
   };
 
   return (
@@ -300,18 +502,29 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onComplete }) => {
       {step === 'menu' && (
         <>
           <Text>Current configuration:</Text>
-          <Text color="gray">API Key: {apiKey ? '***' + apiKey.slice(-4) : 'Not set'}</Text>
-          <Text color="gray">Base URL: {baseUrl}</Text>
-          <Text color="gray">Model: {model}</Text>
-          <Text color="gray">Language: {language === 'zh' ? '🇨🇳 中文' : '🇺🇸 English'}</Text>
+          <Text color="gray">Provider: {providerInfo.label}</Text>
+          {providerInfo.fields.map(field => (
+            <Text key={field.key} color="gray">{field.label}: {formatFieldValue(field)}</Text>
+          ))}
+          <Text color="gray">Model: {values.model}</Text>
+          <Text color="gray">Language: {values.language === 'zh' ? '🇨🇳 中文' : '🇺🇸 English'}</Text>
+          <Text color="gray">Convention: {resolveConvention(values.convention).label}</Text>
+          <Text color="gray">Candidates: {values.candidates || 1}</Text>
+          <Text color="gray">Request Timeout: {values.timeout ? `${values.timeout}s` : 'Disabled'}</Text>
           <Text></Text>
           <Text>What would you like to modify?</Text>
           <SelectInput
             items={[
-              { label: '🔑 Change API Key', value: 'api-key' },
-              { label: '🌐 Change Base URL', value: 'base-url' },
+              { label: '🔌 Change Provider', value: 'provider' },
+              ...providerInfo.fields.map((field, index) => ({
+                label: `${field.secret ? '🔑' : '🌐'} Change ${field.label}`,
+                value: `field:${index}`,
+              })),
               { label: '🤖 Change Model', value: 'model' },
               { label: '🌍 Change Language', value: 'language' },
+              { label: '📐 Change Convention', value: 'convention' },
+              { label: '🎲 Change Number of Candidates', value: 'candidates' },
+              { label: '⏱️  Change Request Timeout', value: 'timeout' },
               { label: '✅ Done', value: 'done' },
             ]}
             onSelect={handleMenuSelect}
@@ -319,28 +532,33 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onComplete }) => {
         </>
       )}
       
-      {step === 'api-key' && (
+      {step === 'provider' && (
         <>
-          <Text>Enter your OpenAI API Key:</Text>
-          <TextInput
-            value={apiKey}
-            onChange={setApiKey}
-            onSubmit={handleApiKeySubmit}
-            placeholder="sk-..."
-            mask="*"
+          <Text>Select your AI provider:</Text>
+          <SelectInput
+            items={PROVIDER_NAMES.map(name => ({ label: PROVIDERS[name].label, value: name }))}
+            initialIndex={PROVIDER_NAMES.indexOf(values.provider || 'openai')}
+            onSelect={handleProviderSelect}
           />
         </>
       )}
       
-      {step === 'base-url' && (
+      {step === 'field' && currentField && (
         <>
-          <Text>Enter OpenAI Base URL (press Enter for default):</Text>
-          <Text color="gray">Default: https://api.openai.com/v1</Text>
+          <Text>
+            Enter {providerInfo.label} {currentField.label}
+            {currentField.defaultValue ? ' (press Enter for default)' : ''}:
+          </Text>
+          {currentField.defaultValue && (
+            <Text color="gray">Default: {currentField.defaultValue}</Text>
+          )}
           <TextInput
-            value={baseUrl}
-            onChange={setBaseUrl}
-            onSubmit={handleBaseUrlSubmit}
-            placeholder="https://api.openai.com/v1"
+            key={currentField.key}
+            value={inputValue}
+            onChange={setInputValue}
+            onSubmit={handleFieldSubmit}
+            placeholder={currentField.placeholder || currentField.defaultValue}
+            mask={currentField.secret ? '*' : undefined}
           />
         </>
       )}
@@ -348,12 +566,12 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onComplete }) => {
       {step === 'model' && (
         <>
           <Text>Enter model name (press Enter for default):</Text>
-          <Text color="gray">Default: gpt-4o-mini</Text>
+          <Text color="gray">Default: {providerInfo.defaultModel}</Text>
           <TextInput
-            value={model}
-            onChange={setModel}
+            value={inputValue}
+            onChange={setInputValue}
             onSubmit={handleModelSubmit}
-            placeholder="gpt-4o-mini"
+            placeholder={providerInfo.defaultModel}
           />
         </>
       )}
@@ -372,6 +590,46 @@ const ConfigSetup: React.FC<ConfigSetupProps> = ({ onComplete }) => {
         </>
       )}
       
+      {step === 'convention' && (
+        <>
+          <Text>Select commit message convention:</Text>
+          <Text color="gray">Custom conventions can be defined in .one-commit.json</Text>
+          <SelectInput
+            items={CONVENTION_PRESETS.map(name => ({ label: CONVENTIONS[name].label, value: name }))}
+            initialIndex={Math.max(0, CONVENTION_PRESETS.indexOf(values.convention as ConventionPreset))}
+            onSelect={handleConventionSelect}
+          />
+        </>
+      )}
+
+      {step === 'candidates' && (
+        <>
+          <Text>How many candidate messages should be generated?</Text>
+          <Text color="gray">With more than one you pick, merge or regenerate them before committing</Text>
+          <SelectInput
+            items={Array.from({ length: MAX_CANDIDATES }, (_, index) => ({
+              label: index === 0 ? '1 (single message)' : String(index + 1),
+              value: index + 1,
+            }))}
+            initialIndex={(values.candidates || 1) - 1}
+            onSelect={handleCandidatesSelect}
+          />
+        </>
+      )}
+
+      {step === 'timeout' && (
+        <>
+          <Text>Enter the request timeout in seconds (press Enter for default, 0 disables):</Text>
+          <Text color="gray">Default: {DEFAULT_TIMEOUT_SECONDS}</Text>
+          <TextInput
+            value={inputValue}
+            onChange={setInputValue}
+            onSubmit={handleTimeoutSubmit}
+            placeholder={String(DEFAULT_TIMEOUT_SECONDS)}
+          />
+        </>
+      )}
+      
       {step === 'done' && (
         <Text color="green">✅ Configuration saved!</Text>
       )}
@@ -400,17 +658,33 @@ const generateCommitSummary = (message: string, diff: GitDiff | null): string =>
   return summary;
 };
 
-const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
-  const [stage, setStage] = useState<'checking' | 'no-changes' | 'file-select' | 'stage-prompt' | 'generating' | 'review' | 'committing' | 'done' | 'error' | 'staged-reset'>('checking');
+const CommitFlow: React.FC<CommitFlowProps> = ({ amend, onExit }) => {
+  const [stage, setStage] = useState<'checking' | 'no-changes' | 'file-select' | 'stage-prompt' | 'generating' | 'cancelled' | 'candidates' | 'review' | 'editing' | 'external-editor' | 'committing' | 'done' | 'error' | 'staged-reset'>('checking');
   const [error, setError] = useState<string>('');
+  const [errorHint, setErrorHint] = useState('');
   const [diff, setDiff] = useState<GitDiff | null>(null);
   const [commitMessage, setCommitMessage] = useState<string>('');
-  const [customMessage, setCustomMessage] = useState<string>('');
+  // What the model wrote, to learn from the user's edits once the message is committed
+  const [generatedMessage, setGeneratedMessage] = useState<string>('');
+  const [externalMessage, setExternalMessage] = useState<string>('');
   const [availableFiles, setAvailableFiles] = useState<{ modified: string[]; untracked: string[]; }>({ modified: [], untracked: [] });
-  const [selectedFilesList, setSelectedFilesList] = useState<string[]>([]);
+  const [selection, setSelection] = useState<StagingSelection | null>(null);
   const [aiWarnings, setAiWarnings] = useState<string[]>([]);
+  const [excludedFiles, setExcludedFiles] = useState<ExcludedFile[]>([]);
+  const [conventionIssues, setConventionIssues] = useState<string[]>([]);
   const [commitSummary, setCommitSummary] = useState<string>('');
   const [stagedFiles, setStagedFiles] = useState<GitDiff | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [candidates, setCandidates] = useState<CommitCandidate[]>([]);
+  const [streamText, setStreamText] = useState('');
+  const [summaryChunks, setSummaryChunks] = useState<SummaryChunk[]>([]);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [retryNotice, setRetryNotice] = useState('');
+  const [regenerating, setRegenerating] = useState(false);
+  // Tokens and cost of the requests behind the message on screen, null or empty when it came from the cache
+  const [usage, setUsage] = useState<UsageTotals | null>(null);
+  const [previousMessage, setPreviousMessage] = useState('');
+  const abortController = useRef<AbortController | null>(null);
 
   useEffect(() => {
     checkRepository();
@@ -425,6 +699,11 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
         return;
       }
 
+      if (amend) {
+        await startAmend();
+        return;
+      }
+
       const hasChanges = await git.hasChanges();
       if (!hasChanges) {
         setStage('no-changes');
@@ -461,19 +740,33 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
     }
   };
 
-  const handleFileSelection = async (selectedFiles: string[]) => {
+  // Amending regenerates the message for HEAD, including whatever is staged on top of it
+  const startAmend = async () => {
+    if (!await git.getHeadCommit()) {
+      setError('Nothing to amend, the repository has no commits yet');
+      setStage('error');
+      return;
+    }
+
+    setPreviousMessage(await git.getHeadMessage());
+    const amendDiff = await git.getAmendChanges();
+    setDiff(amendDiff);
+    generateCommitMessage(amendDiff);
+  };
+
+  const handleFileSelection = async (selected: StagingSelection) => {
     try {
-      if (selectedFiles.length === 0) {
+      if (selected.files.length === 0 && selected.patches.length === 0) {
         setError('No files selected');
         setStage('error');
         return;
       }
       
-      // Store selected files for later staging
-      setSelectedFilesList(selectedFiles);
+      // Store the selection for later staging
+      setSelection(selected);
       
-      // Generate diff for selected files without actually staging them
-      await generateCommitMessageForFiles(selectedFiles);
+      // Generate diff for the selection without actually staging it
+      await generateCommitMessageForSelection(selected);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process selected files');
       setStage('error');
@@ -484,31 +777,32 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
     onExit();
   };
 
-  const generateCommitMessageForFiles = async (selectedFiles: string[]) => {
+  const generateCommitMessageForSelection = async (selected: StagingSelection, refreshCache = false) => {
     setStage('generating');
+    let savedIndex: string | null = null;
     try {
-      // Temporarily stage selected files to get diff
-      await git.stageFiles(selectedFiles);
+      // Temporarily stage the selected files and hunks to get diff
+      savedIndex = await git.saveIndex();
+      await stageSelection(selected);
       const tempDiff = await git.getStagedChanges();
       
-      // Immediately unstage to avoid side effects
-      await git.resetStagedFiles();
+      // Put the index back exactly as it was, partially staged files included
+      await git.restoreIndex(savedIndex);
+      savedIndex = null;
       
       // Generate commit message with the diff
       setDiff(tempDiff);
-      const result = await ai.generateCommitMessage(tempDiff);
-      setCommitMessage(result.message);
-      setAiWarnings(result.warnings);
-      setStage('review');
+      await requestMessages(tempDiff, refreshCache);
     } catch (err) {
-      // Make sure to unstage in case of error
-      try {
-        await git.resetStagedFiles();
-      } catch {
-        // Ignore reset errors
+      // Make sure to restore the index in case of error
+      if (savedIndex) {
+        try {
+          await git.restoreIndex(savedIndex);
+        } catch {
+          // Ignore restore errors
+        }
       }
-      setError(err instanceof Error ? err.message : 'Failed to generate commit message');
-      setStage('error');
+      handleGenerationError(err);
     }
   };
 
@@ -528,16 +822,102 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
     }
   };
 
-  const generateCommitMessage = async (diff: GitDiff) => {
+  // With more than one candidate configured the user picks before reaching the review stage
+  const requestMessages = async (diff: GitDiff, refreshCache = false) => {
+    const controller = new AbortController();
+    abortController.current = controller;
+    setStreamText('');
+    setSummaryChunks([]);
+    setRetryNotice('');
+
+    const count = getConfig().candidates || 1;
+    if (count > 1) {
+      const result = await ai.generateCommitCandidates(diff, count, [], { signal: controller.signal, onChunkProgress: setSummaryChunks, onRetry: setRetryNotice, refreshCache });
+      setCandidates(result.candidates);
+      setAiWarnings(result.warnings);
+      setExcludedFiles(result.excluded);
+      setCachedAt(result.cachedAt);
+      setUsage(result.usage);
+      setStage('candidates');
+      return;
+    }
+
+    const result = await ai.generateCommitMessage(diff, { signal: controller.signal, onProgress: setStreamText, onChunkProgress: setSummaryChunks, onRetry: setRetryNotice, refreshCache });
+    setCommitMessage(result.message);
+    setGeneratedMessage(result.message);
+    setAiWarnings(result.warnings);
+    setExcludedFiles(result.excluded);
+    setCachedAt(result.cachedAt);
+    setUsage(result.usage);
+    setConventionIssues(result.violations);
+    setStage('review');
+  };
+
+  const handleGenerationError = (err: unknown) => {
+    if (err instanceof RequestCancelledError) {
+      setStage('cancelled');
+      setTimeout(onExit, 500);
+      return;
+    }
+    setError(err instanceof Error ? err.message : 'Failed to generate commit message');
+    setErrorHint(err instanceof ApiError ? err.suggestion : '');
+    setStage('error');
+  };
+
+  useInput((input, key) => {
+    if (key.escape || key.ctrl && input === 'c') {
+      abortController.current?.abort();
+    }
+  }, { isActive: stage === 'generating' || regenerating });
+
+  // Same key as in the file selector
+  useInput(input => {
+    if (input === 'v') {
+      setShowDiff(true);
+    }
+  }, { isActive: stage === 'review' && !showDiff && !!diff });
+
+  const generateCommitMessage = async (diff: GitDiff, refreshCache = false) => {
     setStage('generating');
     try {
-      const result = await ai.generateCommitMessage(diff);
-      setCommitMessage(result.message);
-      setAiWarnings(result.warnings);
-      setStage('review');
+      await requestMessages(diff, refreshCache);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to generate commit message');
-      setStage('error');
+      handleGenerationError(err);
+    }
+  };
+
+  const handleCandidatePick = async (message: string) => {
+    setCommitMessage(message);
+    // A merged message was never validated, and a picked one may have been fixed by repair
+    const picked = candidates.find(candidate => candidate.message === message);
+    // A merged message is the user's own, there is nothing generated to compare it with
+    setGeneratedMessage(picked ? picked.message : '');
+    setConventionIssues(picked ? picked.violations : await ai.checkCommitMessage(message));
+    setStage('review');
+  };
+
+  // Failures reach the picker, which keeps the other candidates and shows the error
+  const handleCandidateRegenerate = async (indexes: number[]) => {
+    if (!diff) return;
+    const controller = new AbortController();
+    abortController.current = controller;
+    setRetryNotice('');
+    setRegenerating(true);
+    try {
+      const rejected = indexes.map(index => candidates[index].message);
+      const result = await ai.generateCommitCandidates(diff, indexes.length, rejected, { signal: controller.signal, onRetry: setRetryNotice, refreshCache: true });
+      const next = [...candidates];
+      indexes.forEach((index, position) => {
+        // The provider may return fewer than asked for, keep the old candidate then
+        if (result.candidates[position]) next[index] = result.candidates[position];
+      });
+      setCandidates(next);
+      setAiWarnings(result.warnings);
+      setCachedAt(null);
+      setUsage(result.usage);
+    } finally {
+      setRegenerating(false);
+      setRetryNotice('');
     }
   };
 
@@ -545,11 +925,18 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
     if (choice.value === 'commit') {
       setStage('committing');
       try {
-        // Stage the selected files before committing
-        if (selectedFilesList.length > 0) {
-          await git.stageFiles(selectedFilesList);
+        // Stage the selected files and hunks before committing
+        if (selection) {
+          await stageSelection(selection);
+        }
+        await git.commit(commitMessage, amend);
+        if (generatedMessage && diff) {
+          recordCorrection(await git.getRepoRoot(), resolveConvention(getConfig().convention), {
+            files: diff.files,
+            generated: generatedMessage,
+            final: commitMessage,
+          });
         }
-        await git.commit(commitMessage);
         
         // Generate commit summary
         const summary = generateCommitSummary(commitMessage, diff);
@@ -561,42 +948,47 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
         setError(err instanceof Error ? err.message : 'Failed to commit');
         setStage('error');
       }
+    } else if (choice.value === 'diff') {
+      setShowDiff(true);
     } else if (choice.value === 'edit') {
-      setCustomMessage(commitMessage);
+      setStage('editing');
+    } else if (choice.value === 'external') {
+      openExternalEditor(commitMessage);
     } else if (choice.value === 'regenerate') {
-      if (selectedFilesList.length > 0) {
-        await generateCommitMessageForFiles(selectedFilesList);
+      // Regenerating asks the model again even when a cached message exists
+      if (selection) {
+        await generateCommitMessageForSelection(selection, true);
       } else if (diff) {
-        generateCommitMessage(diff);
+        generateCommitMessage(diff, true);
       }
     } else {
       onExit();
     }
   };
 
-  const handleCustomMessageSubmit = async (message: string) => {
-    if (!message.trim()) return;
-    
-    setStage('committing');
-    try {
-      // Stage the selected files before committing
-      if (selectedFilesList.length > 0) {
-        await git.stageFiles(selectedFilesList);
-      }
-      await git.commit(message);
-      
-      // Generate commit summary
-      const summary = generateCommitSummary(message, diff);
-      setCommitSummary(summary);
-      
-      setStage('done');
-      setTimeout(onExit, 3000);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to commit');
-      setStage('error');
-    }
+  const handleEditedMessage = async (message: string) => {
+    setCommitMessage(message);
+    setConventionIssues(await ai.checkCommitMessage(message));
+    setStage('review');
+  };
+
+  const openExternalEditor = (message: string) => {
+    setExternalMessage(message);
+    setStage('external-editor');
   };
 
+  // Runs once the stage has rendered, when Ink no longer holds the terminal in raw mode
+  useEffect(() => {
+    if (stage !== 'external-editor') return;
+    editInExternalEditor(externalMessage)
+      // An emptied file keeps what was handed to the editor, including unsaved changes from the inline editor
+      .then(edited => handleEditedMessage(edited ?? externalMessage))
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to open editor');
+        setStage('error');
+      });
+  }, [stage]);
+
   const handleStagedResetChoice = async (choice: { value: string }) => {
     if (choice.value === 'reset') {
       try {
@@ -678,30 +1070,101 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
       )}
 
       {stage === 'generating' && (
-        <Text>
-          <Spinner type="dots" /> Generating commit message...
-        </Text>
+        <GenerationView label="Generating commit message..." text={streamText} chunks={summaryChunks} notice={retryNotice} />
       )}
 
-      {stage === 'review' && (
+      {stage === 'cancelled' && (
+        <Text color="yellow">Generation cancelled, nothing was committed</Text>
+      )}
+
+      {stage === 'candidates' && (
         <>
-          <Text color="green" bold>Generated commit message:</Text>
-          <Box borderStyle="single" borderColor="gray" padding={1} marginY={1}>
-            <Text>{commitMessage}</Text>
-          </Box>
+          {aiWarnings.length > 0 && (
+            <>
+              <Text color="yellow" bold>⚠️  Warnings:</Text>
+              {aiWarnings.map((warning, index) => (
+                <Text key={index} color="yellow">• {warning}</Text>
+              ))}
+              <Text></Text>
+            </>
+          )}
+          {cachedAt && (
+            <>
+              <Text color="gray">♻️  Cached candidates from {describeAge(cachedAt)}, press 'x' and 'r' to regenerate them</Text>
+              <Text></Text>
+            </>
+          )}
+          {usage && usage.requests > 0 && (
+            <>
+              <Text color="gray">💰 {describeUsage(usage)}</Text>
+              <Text></Text>
+            </>
+          )}
+          {retryNotice && <Text color="yellow">↻ {retryNotice}</Text>}
+          <CandidatePicker
+            candidates={candidates}
+            onPick={handleCandidatePick}
+            onRegenerate={handleCandidateRegenerate}
+            onCancel={onExit}
+          />
+        </>
+      )}
+
+      {stage === 'review' && showDiff && diff && (
+        <DiffPreview previews={splitDiffByFile(diff.content)} onClose={() => setShowDiff(false)} />
+      )}
+
+      {stage === 'review' && !showDiff && (
+        <>
+          {amend ? (
+            <Box marginY={1}>
+              <Box flexDirection="column" width="50%" paddingRight={1}>
+                <Text color="gray" bold>Current message:</Text>
+                <Box borderStyle="single" borderColor="gray" padding={1} flexGrow={1}>
+                  <Text color="gray">{previousMessage || '(empty)'}</Text>
+                </Box>
+              </Box>
+              <Box flexDirection="column" width="50%">
+                <Text color="green" bold>Generated commit message:</Text>
+                <Box borderStyle="single" borderColor="green" padding={1} flexGrow={1}>
+                  <Text>{commitMessage}</Text>
+                </Box>
+              </Box>
+            </Box>
+          ) : (
+            <>
+              <Text color="green" bold>Generated commit message:</Text>
+              <Box borderStyle="single" borderColor="gray" padding={1} marginY={1}>
+                <Text>{commitMessage}</Text>
+              </Box>
+            </>
+          )}
           
           {diff && (
             <>
               <Text color="gray">
                 Files: {diff.files.join(', ')} (+{diff.additions} -{diff.deletions})
               </Text>
+              {excludedFiles.length > 0 && (
+                <Text color="gray">
+                  Not sent to the model (ignore rules): {describeExcluded(excludedFiles)}
+                </Text>
+              )}
+              {cachedAt && (
+                <Text color="gray">
+                  ♻️  Cached message from {describeAge(cachedAt)}, choose Regenerate for a new one
+                </Text>
+              )}
+              {usage && usage.requests > 0 && (
+                <Text color="gray">💰 {describeUsage(usage)}</Text>
+              )}
               <Text></Text>
             </>
           )}
           
           {aiWarnings.length > 0 && (
             <>
-              <Text color="yellow" bold>⚠️  Diff Processing Warnings:</Text>
+              <Text color="yellow" bold>⚠️  Warnings:</Text>
               {aiWarnings.map((warning, index) => (
                 <Text key={index} color="yellow">• {warning}</Text>
               ))}
@@ -709,11 +1172,23 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
             </>
           )}
           
+          {conventionIssues.length > 0 && (
+            <>
+              <Text color="yellow" bold>⚠️  Commit Message Issues:</Text>
+              {conventionIssues.map((issue, index) => (
+                <Text key={index} color="yellow">• {issue}</Text>
+              ))}
+              <Text></Text>
+            </>
+          )}
+          
           <Text>What would you like to do?</Text>
           <SelectInput
             items={[
-              { label: '✅ Commit with this message', value: 'commit' },
+              { label: amend ? '✅ Amend the last commit with this message' : '✅ Commit with this message', value: 'commit' },
+              { label: '👀 View diff (v)', value: 'diff' },
               { label: '✏️  Edit message', value: 'edit' },
+              { label: '📝 Open in editor', value: 'external' },
               { label: '🔄 Regenerate message', value: 'regenerate' },
               { label: '❌ Cancel', value: 'cancel' },
             ]}
@@ -722,26 +1197,33 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
         </>
       )}
 
-      {customMessage !== '' && (
-        <>
-          <Text>Edit your commit message:</Text>
-          <TextInput
-            value={customMessage}
-            onChange={setCustomMessage}
-            onSubmit={handleCustomMessageSubmit}
+      {stage === 'editing' && (() => {
+        const convention = resolveConvention(getConfig().convention);
+        return (
+          <MessageEditor
+            initialMessage={commitMessage}
+            convention={convention}
+            bodyWidth={convention.bodyMaxLineLength}
+            onSubmit={handleEditedMessage}
+            onOpenExternal={openExternalEditor}
+            onCancel={() => setStage('review')}
           />
-        </>
+        );
+      })()}
+
+      {stage === 'external-editor' && (
+        <Text color="gray">Waiting for your editor to close...</Text>
       )}
 
       {stage === 'committing' && (
         <Text>
-          <Spinner type="dots" /> Committing...
+          <Spinner type="dots" /> {amend ? 'Amending...' : 'Committing...'}
         </Text>
       )}
 
       {stage === 'done' && (
         <>
-          <Text color="green">✅ Successfully committed!</Text>
+          <Text color="green">✅ Successfully {amend ? 'amended' : 'committed'}!</Text>
           {commitSummary && (
             <>
               <Text></Text>
@@ -752,13 +1234,16 @@ const CommitFlow: React.FC<CommitFlowProps> = ({ onExit }) => {
       )}
 
       {stage === 'error' && (
-        <Text color="red">❌ Error: {error}</Text>
+        <>
+          <Text color="red">❌ Error: {error}</Text>
+          {errorHint && <Text color="gray">💡 {errorHint}</Text>}
+        </>
       )}
     </Box>
   );
 };
 
-const App: React.FC<AppProps> = ({ config }) => {
+const App: React.FC<AppProps> = ({ config, plan, amend, reword }) => {
   const [showConfig, setShowConfig] = useState(config || false);
   const [configDone, setConfigDone] = useState(false);
 
@@ -781,7 +1266,24 @@ const App: React.FC<AppProps> = ({ config }) => {
     return <ConfigSetup onComplete={handleConfigComplete} />;
   }
 
-  return <CommitFlow onExit={handleExit} />;
+  if (plan) {
+    return <PlanFlow onExit={handleExit} />;
+  }
+
+  if (reword) {
+    return <RewordFlow range={reword} onExit={handleExit} />;
+  }
+
+  return <CommitFlow amend={amend} onExit={handleExit} />;
+};
+
+// Config settings pass their range from NUMERIC_RANGES, other options their own bounds
+const parseInteger = ([min, max]: [number, number]) => (value: string): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new InvalidArgumentError(`Must be an integer between ${min} and ${max}.`);
+  }
+  return number;
 };
 
 const program = new Command();
@@ -790,9 +1292,282 @@ program
   .name('one-commit')
   .description('AI-powered automatic commit message generator')
   .version('1.0.0')
-  .option('-c, --config', 'configure OpenAI API settings')
+  .option('-c, --config', 'configure AI provider settings')
+  .option('-y, --yes', 'commit the generated message without the interactive UI')
+  .option('--dry-run', 'generate a message and show what would be committed, without committing')
+  .option('-p, --print', 'print only the generated message to stdout')
+  .option('-a, --all', 'stage all changes before generating (non-interactive)')
+  .option('--files <globs...>', 'stage files matching the given glob patterns (non-interactive)')
+  .option('--amend', 'regenerate the message of the last commit, including newly staged changes, and amend it')
+  .addOption(new Option('--provider <name>', 'override the AI provider').choices(PROVIDER_NAMES))
+  .option('-m, --model <name>', 'override the model')
+  .addOption(new Option('-l, --language <lang>', 'override the commit message language').choices(['en', 'zh']))
+  .addOption(new Option('--convention <name>', 'override the commit convention').choices(CONVENTION_PRESETS))
+  .option('-n, --candidates <count>', 'number of candidate messages to choose from (interactive)', parseInteger(NUMERIC_RANGES.candidates!))
+  .option('--timeout <seconds>', 'give up on an AI request after this many seconds (0 disables)', parseInteger(NUMERIC_RANGES.timeout!))
+  .addOption(new Option('--secret-policy <policy>', 'what to do when the diff contains secrets').choices(SECRET_POLICIES))
+  .option('--context-window <tokens>', "override the model's context window used to budget the diff", parseInteger(NUMERIC_RANGES.contextWindow!))
+  .option('--no-cache', 'always ask the model, neither reuse nor store cached responses')
+  .hook('preAction', () => {
+    const { provider, model, language, convention, candidates, timeout, secretPolicy, contextWindow, cache } = program.opts();
+    setCliOverrides({ provider, model, language, convention, candidates, timeout, secretPolicy, contextWindow });
+    if (!cache) {
+      disableCache();
+    }
+  })
+  .action(async (options) => {
+    if (isHeadless(options)) {
+      try {
+        process.exit(await runHeadless(options));
+      } catch (err) {
+        console.error(chalk.red(`❌ Error: ${err instanceof Error ? err.message : err}`));
+        process.exit(ExitCode.ERROR);
+      }
+    }
+
+    if (options.all || options.files) {
+      program.error('--all and --files require --yes, --dry-run or --print');
+    }
+
+    render(<App config={options.config} amend={options.amend} />);
+  });
+
+const printConfigExplanation = () => {
+  const { origins, repoConfig } = explainConfig();
+
+  console.log(`Repository config: ${repoConfig ? repoConfig.path : chalk.gray('none')}`);
+  repoConfig?.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+  console.log('');
+
+  const rows = origins.map(({ key, value, source, detail }) => {
+    let display = value === undefined ? '(not set)' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (value && SECRET_KEYS.includes(key)) {
+      display = '***' + String(value).slice(-4);
+    }
+    return { key, display, origin: detail ? `${source} (${detail})` : source };
+  });
+  const keyWidth = Math.max(...rows.map(row => row.key.length));
+  const valueWidth = Math.max(...rows.map(row => row.display.length));
+  rows.forEach(({ key, display, origin }) => {
+    console.log(`${key.padEnd(keyWidth)}  ${display.padEnd(valueWidth)}  ${chalk.gray(origin)}`);
+  });
+  console.log('');
+  console.log(chalk.gray('Precedence: flag > env > repo > global > default'));
+};
+
+program
+  .command('config')
+  .description('configure AI provider settings, or show where each setting comes from')
+  .option('--explain', 'show every effective setting and its source')
   .action((options) => {
-    render(<App config={options.config} />);
+    if (options.explain) {
+      printConfigExplanation();
+      return;
+    }
+    render(<App config />);
+  });
+
+program
+  .command('plan')
+  .description('split all working tree changes into several atomic commits')
+  .action(() => {
+    render(<App plan />);
+  });
+
+program
+  .command('pr')
+  .description('generate a pull request title and description for the current branch')
+  .option('-b, --base <branch>', 'branch the pull request targets (default: detected from the upstream)')
+  .option('-o, --output <file>', 'write the title and description to a file instead of stdout')
+  .action(async (options) => {
+    try {
+      process.exit(await runPullRequest(options));
+    } catch (err) {
+      console.error(chalk.red(`❌ Error: ${err instanceof Error ? err.message : err}`));
+      process.exit(ExitCode.ERROR);
+    }
+  });
+
+program
+  .command('changelog')
+  .description('add a section for the commits since the last tag to CHANGELOG.md and suggest the next version')
+  .option('--from <ref>', 'start after this tag or commit (default: the latest tag)')
+  .option('--release <version>', 'version for the new section (default: the suggested version)')
+  .addOption(new Option('--style <style>', 'changelog format (default: detected from the file, else keepachangelog)').choices(CHANGELOG_STYLES))
+  .option('-f, --file <path>', 'changelog file, relative to the repository root', 'CHANGELOG.md')
+  .option('--dry-run', 'print the new section instead of writing it')
+  .option('--polish', 'let the AI rewrite the entries as user-facing release notes')
+  .action(async (options, command: Command) => {
+    try {
+      // --dry-run is also a top-level option, which commander matches first
+      process.exit(await runChangelog({ ...command.optsWithGlobals(), version: options.release }));
+    } catch (err) {
+      console.error(chalk.red(`❌ Error: ${err instanceof Error ? err.message : err}`));
+      process.exit(ExitCode.ERROR);
+    }
+  });
+
+program
+  .command('reword <range>')
+  .description('regenerate the messages of existing commits, e.g. main..HEAD, and rewrite them')
+  .action((range: string) => {
+    render(<App reword={range} />);
+  });
+
+const printHookStatus = (status: HookStatus) => {
+  console.log(`Hooks directory: ${status.hooksDir}${status.hooksPath ? chalk.gray(' (core.hooksPath)') : ''}`);
+  if (status.installed) {
+    console.log(chalk.green('✅ prepare-commit-msg hook installed'));
+  } else if (status.foreignHook) {
+    console.log(chalk.yellow('⚠️  A different prepare-commit-msg hook is installed'));
+  } else {
+    console.log(chalk.gray('prepare-commit-msg hook not installed'));
+  }
+  if (status.chained) {
+    console.log(chalk.gray('Chained to the previously existing prepare-commit-msg hook'));
+  }
+};
+
+const runHookCommand = async (action: () => Promise<HookStatus>) => {
+  try {
+    printHookStatus(await action());
+  } catch (err) {
+    console.error(chalk.red(`❌ Error: ${err instanceof Error ? err.message : err}`));
+    process.exit(ExitCode.ERROR);
+  }
+};
+
+const hook = program
+  .command('hook')
+  .description('manage the prepare-commit-msg git hook');
+
+hook
+  .command('install')
+  .description('install the hook, chaining any existing prepare-commit-msg hook')
+  .action(() => runHookCommand(installHook));
+
+hook
+  .command('uninstall')
+  .description('remove the hook and restore any chained hook')
+  .action(() => runHookCommand(uninstallHook));
+
+hook
+  .command('status')
+  .description('show whether the hook is installed')
+  .action(() => runHookCommand(getHookStatus));
+
+hook
+  .command('run <messageFile>', { hidden: true })
+  .description('fill the commit message file (called by the installed hook)')
+  .action(async (messageFile: string) => {
+    await runHook(messageFile);
+  });
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const cache = program
+  .command('cache')
+  .description('manage the cache of generated messages');
+
+cache
+  .command('clear')
+  .description('delete every cached response')
+  .action(() => {
+    try {
+      const removed = clearCache();
+      console.log(chalk.green(`✅ Removed ${removed} cached response${removed !== 1 ? 's' : ''}`));
+    } catch (err) {
+      console.error(chalk.red(`❌ Error: Failed to clear the cache: ${err instanceof Error ? err.message : err}`));
+      process.exit(ExitCode.ERROR);
+    }
+  });
+
+cache
+  .command('stats')
+  .description('show how many responses are cached and how often they were reused')
+  .action(() => {
+    try {
+      const stats = getCacheStats();
+      const { cacheMaxAge, cacheMaxSize } = getConfig();
+      console.log(`Cache directory: ${stats.path}`);
+      console.log(`Entries: ${stats.entries} (${formatBytes(stats.bytes)} of ${cacheMaxSize} MB)`);
+      console.log(`Reused: ${stats.hits} time${stats.hits !== 1 ? 's' : ''}`);
+      if (stats.oldest !== null && stats.newest !== null) {
+        console.log(`Oldest: ${describeAge(stats.oldest)}, newest: ${describeAge(stats.newest)}`);
+      }
+      console.log(chalk.gray(cacheMaxAge ? `Responses are reused for ${cacheMaxAge} day${cacheMaxAge !== 1 ? 's' : ''}` : 'Caching is disabled (cacheMaxAge is 0)'));
+    } catch (err) {
+      console.error(chalk.red(`❌ Error: Failed to read the cache: ${err instanceof Error ? err.message : err}`));
+      process.exit(ExitCode.ERROR);
+    }
+  });
+
+const runExamplesCommand = async (action: (repo: string) => void) => {
+  try {
+    action(await git.getRepoRoot());
+  } catch (err) {
+    console.error(chalk.red(`❌ Error: ${err instanceof Error ? err.message : err}`));
+    process.exit(ExitCode.ERROR);
+  }
+};
+
+const examples = program
+  .command('examples')
+  .description('inspect and prune the edits to generated messages that are shown to the model as examples');
+
+examples
+  .command('list')
+  .description('show the stored corrections of this repository, oldest first')
+  .action(() => runExamplesCommand(repo => {
+    const corrections = loadCorrections(repo);
+    if (corrections.length === 0) {
+      console.log(chalk.gray('No corrections stored for this repository yet. Edit a generated message before committing to add one.'));
+      return;
+    }
+    corrections.forEach((correction, index) => {
+      console.log(`${chalk.bold(`${index + 1}.`)} ${chalk.gray(`${describeAge(correction.time)}, ${correction.files.join(', ')}`)}`);
+      correction.generated.split('\n').forEach(line => console.log(chalk.red(`   - ${line}`)));
+      correction.final.split('\n').forEach(line => console.log(chalk.green(`   + ${line}`)));
+    });
+    const { correctionExamples } = getConfig();
+    console.log('');
+    console.log(chalk.gray(correctionExamples
+      ? `Up to ${correctionExamples} of the most similar ones are sent with each request`
+      : 'Examples are not sent (correctionExamples is 0)'));
+  }));
+
+examples
+  .command('remove <numbers...>')
+  .description('delete stored corrections by their number in the list')
+  .action((numbers: string[]) => runExamplesCommand(repo => {
+    if (numbers.some(number => !/^[1-9]\d*$/.test(number))) {
+      throw new Error('Expected the numbers shown by "one-commit examples list"');
+    }
+    const removed = removeCorrections(repo, numbers.map(Number));
+    console.log(chalk.green(`✅ Removed ${removed} correction${removed !== 1 ? 's' : ''}`));
+  }));
+
+examples
+  .command('prune')
+  .description('delete old stored corrections of this repository')
+  .option('--older-than <days>', 'delete corrections older than this many days', parseInteger([0, 3650]))
+  .option('--keep <count>', 'keep only this many of the newest corrections, 0 deletes all', parseInteger([0, MAX_STORED_CORRECTIONS]))
+  .action((options) => runExamplesCommand(repo => {
+    if (options.olderThan === undefined && options.keep === undefined) {
+      throw new Error('Nothing to prune, pass --older-than or --keep');
+    }
+    const removed = pruneCorrections(repo, { olderThanDays: options.olderThan, keep: options.keep });
+    console.log(chalk.green(`✅ Removed ${removed} correction${removed !== 1 ? 's' : ''}`));
+  }));
+
+program
+  .command('stats')
+  .description('show tokens, cost and latency of past requests per day, week and repository')
+  .option('--days <count>', `number of days to report (default: ${DEFAULT_STATS_DAYS})`, parseInteger([1, 365]))
+  .option('--json', 'print the report as JSON')
+  .action(async (options) => {
+    process.exit(await runStats(options));
   });
 
-program.parse();
\ No newline at end of file
+program.parseAsync();
\ No newline at end of file
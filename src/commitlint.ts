@@ -0,0 +1,95 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getRepoRoot } from './git.js';
+
+// Only a type import, the module itself is loaded lazily below
+type LintOptions = NonNullable<Parameters<typeof import('@commitlint/lint').default>[2]>;
+
+export interface CommitlintResult {
+  configPath: string;
+  errors: string[];
+  warnings: string[];
+}
+
+// Same lookup order as commitlint's own cosmiconfig search
+const CONFIG_FILES = [
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.yaml',
+  '.commitlintrc.yml',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  '.commitlintrc.mjs',
+  '.commitlintrc.ts',
+  '.commitlintrc.cts',
+  'commitlint.config.js',
+  'commitlint.config.cjs',
+  'commitlint.config.mjs',
+  'commitlint.config.ts',
+  'commitlint.config.cts',
+];
+
+export function findCommitlintConfig(root: string): string | null {
+  for (const filename of CONFIG_FILES) {
+    const filePath = join(root, filename);
+    if (existsSync(filePath)) {
+      return filePath;
+    }
+  }
+
+  const packagePath = join(root, 'package.json');
+  if (existsSync(packagePath)) {
+    try {
+      if (JSON.parse(readFileSync(packagePath, 'utf-8')).commitlint) {
+        return packagePath;
+      }
+    } catch {
+      // An unreadable package.json simply means no commitlint config there
+    }
+  }
+
+  return null;
+}
+
+// Returns null when the repository has no commitlint config, so callers can skip the check entirely
+export async function lintCommitMessage(message: string): Promise<CommitlintResult | null> {
+  let root: string;
+  try {
+    root = await getRepoRoot();
+  } catch {
+    return null;
+  }
+
+  const configPath = findCommitlintConfig(root);
+  if (!configPath) {
+    return null;
+  }
+
+  try {
+    // Loaded lazily: commitlint pulls in config loaders most runs never need
+    const { default: load } = await import('@commitlint/load');
+    const { default: lint } = await import('@commitlint/lint');
+
+    const config = await load({}, { cwd: root });
+    // Presets declare their parser options as unknown, anything but an object is left to the default parser
+    const parserOpts = config.parserPreset?.parserOpts;
+    const report = await lint(message, config.rules, {
+      parserOpts: parserOpts && typeof parserOpts === 'object' ? parserOpts as LintOptions['parserOpts'] : undefined,
+      plugins: config.plugins,
+      ignores: config.ignores,
+      defaultIgnores: config.defaultIgnores,
+    });
+
+    return {
+      configPath,
+      errors: report.errors.map(error => `${error.message} (${error.name})`),
+      warnings: report.warnings.map(warning => `${warning.message} (${warning.name})`),
+    };
+  } catch (error) {
+    return {
+      configPath,
+      errors: [],
+      warnings: [`Failed to run commitlint: ${error instanceof Error ? error.message : error}`],
+    };
+  }
+}
@@ -1,43 +1,342 @@
 import Conf from 'conf';
-import { Config } from './types.js';
+import { readFileSync, existsSync } from 'fs';
+import { resolve, dirname, join, relative } from 'path';
+import { Config, FallbackTarget, ProviderName } from './types.js';
+import { PROVIDERS, PROVIDER_NAMES, DEFAULT_TIMEOUT_SECONDS, DEFAULT_MAX_RETRIES, getMissingFields } from './providers.js';
+import { isConventionPreset, validateCustomConvention } from './conventions.js';
+import { SECRET_POLICIES, SecretPolicy } from './secrets.js';
+import { DEFAULT_CACHE_MAX_AGE_DAYS, DEFAULT_CACHE_MAX_SIZE_MB } from './cache.js';
+import { DEFAULT_CORRECTION_EXAMPLES } from './corrections.js';
 
 const config = new Conf<Config>({
   projectName: 'one-commit',
-  defaults: {
-    baseUrl: 'https://api.openai.com/v1',
-    model: 'gpt-4o-mini',
-  },
 });
 
-export function getConfig(): Config {
-  return {
-    apiKey: config.get('apiKey') || process.env.OPENAI_API_KEY,
-    baseUrl: config.get('baseUrl') || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
-    model: config.get('model') || 'gpt-4o-mini',
-    language: config.get('language') || 'en',
-  };
+export type ConfigSource = 'flag' | 'env' | 'repo' | 'global' | 'default';
+
+export interface ConfigOrigin {
+  key: keyof Config;
+  value: Config[keyof Config];
+  source: ConfigSource;
+  detail?: string;
 }
 
-export function setConfig(updates: Partial<Config>): void {
-  if (updates.apiKey) {
-    config.set('apiKey', updates.apiKey);
+export interface RepoConfig {
+  path: string;
+  values: Partial<Config>;
+  warnings: string[];
+}
+
+const CONFIG_KEYS: (keyof Config)[] = [
+  'provider',
+  'model',
+  'language',
+  'convention',
+  'candidates',
+  'timeout',
+  'prTemplate',
+  'secretPolicy',
+  'contextWindow',
+  'cacheMaxAge',
+  'cacheMaxSize',
+  'maxRetries',
+  'fallbacks',
+  'pricing',
+  'correctionExamples',
+  'apiKey',
+  'baseUrl',
+  'anthropicApiKey',
+  'anthropicBaseUrl',
+  'ollamaBaseUrl',
+  'azureApiKey',
+  'azureEndpoint',
+  'azureDeployment',
+  'azureApiVersion',
+];
+
+export const SECRET_KEYS: (keyof Config)[] = ['apiKey', 'anthropicApiKey', 'azureApiKey'];
+
+// A checked-in file must not be able to redirect the user's credentials to another server
+const REPO_FORBIDDEN_KEYS: (keyof Config)[] = [
+  ...SECRET_KEYS,
+  'baseUrl',
+  'anthropicBaseUrl',
+  'ollamaBaseUrl',
+  'azureEndpoint',
+];
+
+const ENV_VARS: Partial<Record<keyof Config, string[]>> = {
+  provider: ['ONE_COMMIT_PROVIDER'],
+  model: ['ONE_COMMIT_MODEL'],
+  language: ['ONE_COMMIT_LANGUAGE'],
+  convention: ['ONE_COMMIT_CONVENTION'],
+  candidates: ['ONE_COMMIT_CANDIDATES'],
+  timeout: ['ONE_COMMIT_TIMEOUT'],
+  secretPolicy: ['ONE_COMMIT_SECRET_POLICY'],
+  contextWindow: ['ONE_COMMIT_CONTEXT_WINDOW'],
+  maxRetries: ['ONE_COMMIT_MAX_RETRIES'],
+  fallbacks: ['ONE_COMMIT_FALLBACKS'],
+  apiKey: ['OPENAI_API_KEY'],
+  baseUrl: ['OPENAI_BASE_URL'],
+  anthropicApiKey: ['ANTHROPIC_API_KEY'],
+  anthropicBaseUrl: ['ANTHROPIC_BASE_URL'],
+  ollamaBaseUrl: ['OLLAMA_HOST'],
+  azureApiKey: ['AZURE_OPENAI_API_KEY'],
+  azureEndpoint: ['AZURE_OPENAI_ENDPOINT'],
+};
+
+const DEFAULTS: Partial<Config> = {
+  provider: 'openai',
+  language: 'en',
+  convention: 'conventional',
+  candidates: 1,
+  timeout: DEFAULT_TIMEOUT_SECONDS,
+  secretPolicy: 'redact',
+  cacheMaxAge: DEFAULT_CACHE_MAX_AGE_DAYS,
+  cacheMaxSize: DEFAULT_CACHE_MAX_SIZE_MB,
+  maxRetries: DEFAULT_MAX_RETRIES,
+  correctionExamples: DEFAULT_CORRECTION_EXAMPLES,
+  baseUrl: 'https://api.openai.com/v1',
+  anthropicBaseUrl: 'https://api.anthropic.com',
+  ollamaBaseUrl: 'http://localhost:11434',
+  azureApiVersion: '2024-06-01',
+};
+
+export const MAX_CANDIDATES = 5;
+
+// Inclusive ranges for settings that hold whole numbers
+export const NUMERIC_RANGES: Partial<Record<keyof Config, [number, number]>> = {
+  candidates: [1, MAX_CANDIDATES],
+  // Seconds, 0 disables the timeout
+  timeout: [0, 3600],
+  // Tokens, overrides the built-in window of the selected model
+  contextWindow: [2048, 10_000_000],
+  // Days a cached response is reused, 0 disables the cache
+  cacheMaxAge: [0, 365],
+  // Megabytes on disk before the oldest responses are dropped
+  cacheMaxSize: [1, 1024],
+  // Retries after a rate limit or server error, per model
+  maxRetries: [0, 10],
+  // Past corrections of similar changes shown to the model, 0 stops sending them
+  correctionExamples: [0, 10],
+};
+
+const FALLBACK_KEYS = ['provider', 'model', 'baseUrl', 'anthropicBaseUrl', 'ollamaBaseUrl', 'azureEndpoint', 'azureDeployment', 'azureApiVersion'];
+
+// The environment variable lists model names of the same provider, separated by commas
+const parseFallbackList = (value: string): string[] => value.split(',').map(model => model.trim()).filter(Boolean);
+
+function validateFallbacks(value: unknown): string | null {
+  const targets = typeof value === 'string' ? parseFallbackList(value) : value;
+  if (!Array.isArray(targets) || targets.length === 0) {
+    return '"fallbacks" must be a non-empty list of model names or provider settings';
+  }
+  for (const target of targets) {
+    if (typeof target === 'string' && target) continue;
+    if (!target || typeof target !== 'object' || Array.isArray(target)) {
+      return '"fallbacks" entries must be model names or objects';
+    }
+    const unknown = Object.keys(target).find(key => !FALLBACK_KEYS.includes(key));
+    if (unknown) {
+      return `"fallbacks" entries may only set ${FALLBACK_KEYS.join(', ')}, not "${unknown}"`;
+    }
+    if (Object.values(target).some(setting => typeof setting !== 'string' || !setting)) {
+      return '"fallbacks" settings must be non-empty strings';
+    }
+    if (target.provider && !PROVIDER_NAMES.includes(target.provider)) {
+      return `"fallbacks" provider must be one of ${PROVIDER_NAMES.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+function validatePricing(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return '"pricing" must map model names to { "input": ..., "output": ... } in dollars per million tokens';
+  }
+  for (const [model, price] of Object.entries(value)) {
+    const valid = price && typeof price === 'object'
+      && [price.input, price.output].every(amount => typeof amount === 'number' && Number.isFinite(amount) && amount >= 0);
+    if (!valid) {
+      return `"pricing" for "${model}" needs non-negative "input" and "output" prices`;
+    }
+  }
+  return null;
+}
+
+const REPO_CONFIG_FILES = ['.one-commit.json', '.onecommitrc', 'package.json'];
+
+let cliOverrides: Partial<Config> = {};
+
+export function setCliOverrides(overrides: Partial<Config>): void {
+  cliOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([key, value]) => CONFIG_KEYS.includes(key as keyof Config) && value !== undefined)
+  );
+}
+
+export function findGitRoot(start: string): string | null {
+  let dir = resolve(start);
+  while (true) {
+    // .git is a directory in normal clones and a file in worktrees and submodules
+    if (existsSync(join(dir, '.git'))) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+function validateValue(key: keyof Config, value: unknown): string | null {
+  if (key === 'convention') {
+    // Presets are referenced by name, custom conventions are spelled out as objects
+    return isConventionPreset(value) ? null : validateCustomConvention(value);
+  }
+  if (key === 'fallbacks') {
+    return validateFallbacks(value);
+  }
+  if (key === 'pricing') {
+    return validatePricing(value);
+  }
+  const range = NUMERIC_RANGES[key];
+  if (range) {
+    // Environment variables arrive as strings, everything else as JSON numbers
+    const number = typeof value === 'string' ? Number(value) : value;
+    return Number.isInteger(number) && (number as number) >= range[0] && (number as number) <= range[1]
+      ? null
+      : `"${key}" must be an integer between ${range[0]} and ${range[1]}`;
+  }
+  if (typeof value !== 'string' || value === '') {
+    return `"${key}" must be a non-empty string`;
   }
-  if (updates.baseUrl) {
-    config.set('baseUrl', updates.baseUrl);
+  if (key === 'provider' && !PROVIDER_NAMES.includes(value as ProviderName)) {
+    return `"provider" must be one of ${PROVIDER_NAMES.join(', ')}`;
   }
-  if (updates.model) {
-    config.set('model', updates.model);
+  if (key === 'language' && value !== 'en' && value !== 'zh') {
+    return '"language" must be "en" or "zh"';
   }
-  if (updates.language) {
-    config.set('language', updates.language);
+  if (key === 'secretPolicy' && !SECRET_POLICIES.includes(value as SecretPolicy)) {
+    return `"secretPolicy" must be one of ${SECRET_POLICIES.join(', ')}`;
+  }
+  return null;
+}
+
+export function loadRepoConfig(cwd: string = process.cwd()): RepoConfig | null {
+  const root = findGitRoot(cwd);
+  if (!root) {
+    return null;
+  }
+
+  for (const filename of REPO_CONFIG_FILES) {
+    const filePath = join(root, filename);
+    if (!existsSync(filePath)) continue;
+
+    const warnings: string[] = [];
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      warnings.push(`${filename}: invalid JSON (${error instanceof Error ? error.message : error})`);
+      return { path: filePath, values: {}, warnings };
+    }
+
+    if (filename === 'package.json') {
+      raw = raw && typeof raw === 'object' ? (raw as Record<string, unknown>)['one-commit'] : undefined;
+      if (raw === undefined) continue;
+    }
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      warnings.push(`${filename}: expected a JSON object`);
+      return { path: filePath, values: {}, warnings };
+    }
+
+    const values: Partial<Config> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      if (!CONFIG_KEYS.includes(key as keyof Config)) {
+        warnings.push(`${filename}: unknown setting "${key}" ignored`);
+      } else if (REPO_FORBIDDEN_KEYS.includes(key as keyof Config)) {
+        warnings.push(`${filename}: "${key}" can only be set globally or via environment, ignored`);
+      } else {
+        // "gpt-4o, gpt-4o-mini" is accepted like in the environment variable, but stored as the list it stands for
+        const parsed = key === 'fallbacks' && typeof value === 'string' ? parseFallbackList(value) : value;
+        const problem = validateValue(key as keyof Config, parsed)
+          // Same reason as above: a fallback must not point the user's key at another server
+          ?? (key === 'fallbacks' && (parsed as FallbackTarget[]).some(target => typeof target === 'object' && REPO_FORBIDDEN_KEYS.some(forbidden => forbidden in target))
+            ? '"fallbacks" endpoints can only be set globally or via environment'
+            : null);
+        if (problem) {
+          warnings.push(`${filename}: ${problem}, ignored`);
+        } else {
+          Object.assign(values, { [key]: parsed });
+        }
+      }
+    }
+
+    return { path: filePath, values, warnings };
+  }
+
+  return null;
+}
+
+function resolveValue(key: keyof Config, repoConfig: RepoConfig | null, provider?: Config['provider']): ConfigOrigin {
+  if (cliOverrides[key] !== undefined) {
+    return { key, value: cliOverrides[key], source: 'flag' };
+  }
+
+  for (const name of ENV_VARS[key] || []) {
+    const value = process.env[name];
+    if (value && !validateValue(key, value)) {
+      const parsed = NUMERIC_RANGES[key] ? Number(value) : key === 'fallbacks' ? parseFallbackList(value) : value;
+      return { key, value: parsed as Config[keyof Config], source: 'env', detail: name };
+    }
+  }
+
+  if (repoConfig && repoConfig.values[key] !== undefined) {
+    return { key, value: repoConfig.values[key], source: 'repo', detail: relative(process.cwd(), repoConfig.path) || repoConfig.path };
+  }
+
+  const globalValue = config.get(key);
+  if (globalValue !== undefined && globalValue !== '') {
+    return { key, value: globalValue, source: 'global', detail: config.path };
+  }
+
+  // The default model depends on which provider won above
+  const defaultValue = key === 'model' ? PROVIDERS[provider || 'openai'].defaultModel : DEFAULTS[key];
+  return { key, value: defaultValue, source: 'default' };
+}
+
+export function explainConfig(): { origins: ConfigOrigin[]; repoConfig: RepoConfig | null } {
+  const repoConfig = loadRepoConfig();
+  const providerOrigin = resolveValue('provider', repoConfig);
+  const provider = providerOrigin.value as Config['provider'];
+
+  const origins = CONFIG_KEYS.map(key => key === 'provider' ? providerOrigin : resolveValue(key, repoConfig, provider));
+  return { origins, repoConfig };
+}
+
+export function getConfig(): Config {
+  const { origins } = explainConfig();
+  return Object.fromEntries(
+    origins.filter(origin => origin.value !== undefined).map(origin => [origin.key, origin.value])
+  ) as Config;
+}
+
+export function setConfig(updates: Partial<Config>): void {
+  for (const [key, value] of Object.entries(updates) as [keyof Config, Config[keyof Config]][]) {
+    // 0 is a meaningful value for numeric settings, only skip empty ones
+    if (value !== undefined && value !== '') {
+      config.set(key, value);
+    }
   }
 }
 
 export function hasValidConfig(): boolean {
   const cfg = getConfig();
-  return !!cfg.apiKey;
+  return getMissingFields(cfg).length === 0;
 }
 
 export function clearConfig(): void {
   config.clear();
-}
\ No newline at end of file
+}
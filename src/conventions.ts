@@ -0,0 +1,462 @@
+export type ConventionPreset = 'conventional' | 'angular' | 'gitmoji' | 'kernel' | 'imperative';
+
+// The kind of change a file analysis can detect, mapped onto each convention's own type names
+export type ChangeIntent = 'feat' | 'fix' | 'docs' | 'style' | 'refactor' | 'test' | 'chore' | 'perf' | 'ci' | 'build' | 'revert';
+
+const CHANGE_INTENTS: ChangeIntent[] = ['feat', 'fix', 'docs', 'style', 'refactor', 'test', 'chore', 'perf', 'ci', 'build', 'revert'];
+
+const SUBJECT_CASES: Convention['subjectCase'][] = ['lower', 'upper', 'any'];
+
+export interface CommitType {
+  name: string;
+  description: string;
+  intent?: ChangeIntent;
+}
+
+export interface Convention {
+  name: string;
+  label: string;
+  // How the first line is built: "<type>(scope): subject", "<emoji> subject", "subsystem: subject" or a bare subject
+  header: 'type-scope' | 'gitmoji' | 'subsystem' | 'plain';
+  types: CommitType[];
+  scopes: string[];
+  scopeRequired: boolean;
+  subjectMaxLength: number;
+  subjectCase: 'lower' | 'upper' | 'any';
+  bodyRequired: boolean;
+  bodyMaxLineLength: number;
+  bodyRules: string[];
+  footerRules: string[];
+  examples: {
+    concise: string[];
+    detailed: string;
+    good?: string[];
+    bad: string[];
+  };
+}
+
+export interface CustomConvention {
+  extends?: ConventionPreset;
+  types?: (string | CommitType)[];
+  scopes?: string[];
+  scopeRequired?: boolean;
+  subjectMaxLength?: number;
+  subjectCase?: Convention['subjectCase'];
+  bodyRequired?: boolean;
+  bodyMaxLineLength?: number;
+  bodyRules?: string[];
+  footerRules?: string[];
+  examples?: string[];
+}
+
+export interface ParsedHeader {
+  type: string | null;
+  scope: string | null;
+  breaking: boolean;
+  subject: string;
+}
+
+const CONVENTIONAL_TYPES: CommitType[] = [
+  { name: 'feat', description: 'new feature for the user', intent: 'feat' },
+  { name: 'fix', description: 'bug fix for the user', intent: 'fix' },
+  { name: 'docs', description: 'documentation changes', intent: 'docs' },
+  { name: 'style', description: 'formatting, missing semicolons, etc (no code change)', intent: 'style' },
+  { name: 'refactor', description: 'refactoring production code (no new features or fixes)', intent: 'refactor' },
+  { name: 'test', description: 'adding/updating tests (no production code change)', intent: 'test' },
+  { name: 'chore', description: 'build process, dependencies, tooling, etc (no production code change)', intent: 'chore' },
+  { name: 'perf', description: 'performance improvements', intent: 'perf' },
+  { name: 'ci', description: 'continuous integration changes', intent: 'ci' },
+  { name: 'build', description: 'build system or dependencies changes', intent: 'build' },
+  { name: 'revert', description: 'reverting a previous commit', intent: 'revert' },
+];
+
+const DETAILED_BULLETS = `- Auto-detect terminal height and adapt display window
+- Implement smart scrolling with selected item always visible
+- Add Ctrl+A/E shortcuts for quick navigation to start/end
+- Display scroll indicators showing current range (1-20 of 150)`;
+
+export const CONVENTIONS: Record<ConventionPreset, Convention> = {
+  conventional: {
+    name: 'conventional',
+    label: 'Conventional Commits',
+    header: 'type-scope',
+    types: CONVENTIONAL_TYPES,
+    scopes: [],
+    scopeRequired: false,
+    subjectMaxLength: 50,
+    subjectCase: 'lower',
+    bodyRequired: false,
+    bodyMaxLineLength: 72,
+    bodyRules: [],
+    footerRules: [
+      'Add "BREAKING CHANGE: <description>" only when the change breaks existing behavior',
+    ],
+    examples: {
+      concise: [
+        'fix(auth): resolve null pointer in UserService.validate()',
+        'feat(converter): add HemaConverter.parseData() method',
+        'refactor(utils): extract formatDate() to DateUtils class',
+      ],
+      detailed: `feat(cli): add virtual scrolling for file selection\n\n${DETAILED_BULLETS}`,
+      good: [
+        'feat(auth): add TokenExpiry enum and validation logic',
+        'fix(converter): handle null values in HemaConverter.parse()',
+        'refactor(data): extract SupTree.build() concurrency logic',
+      ],
+      bad: [
+        'feat: optimize enum type definitions and conversion logic',
+        'fix: improve data processing error handling mechanism',
+        'refactor: restructure data processing workflow',
+      ],
+    },
+  },
+  angular: {
+    name: 'angular',
+    label: 'Angular',
+    header: 'type-scope',
+    types: [
+      { name: 'build', description: 'changes that affect the build system or external dependencies', intent: 'build' },
+      { name: 'ci', description: 'changes to CI configuration files and scripts', intent: 'ci' },
+      { name: 'docs', description: 'documentation only changes', intent: 'docs' },
+      { name: 'feat', description: 'a new feature', intent: 'feat' },
+      { name: 'fix', description: 'a bug fix', intent: 'fix' },
+      { name: 'perf', description: 'a code change that improves performance', intent: 'perf' },
+      { name: 'refactor', description: 'a code change that neither fixes a bug nor adds a feature', intent: 'refactor' },
+      { name: 'test', description: 'adding missing tests or correcting existing tests', intent: 'test' },
+    ],
+    scopes: [],
+    scopeRequired: false,
+    subjectMaxLength: 100,
+    subjectCase: 'lower',
+    bodyRequired: true,
+    bodyMaxLineLength: 100,
+    bodyRules: [
+      'Always add a body after a blank line (except for docs), at least 20 characters',
+      'Explain the motivation for the change and contrast it with the previous behavior',
+    ],
+    footerRules: [
+      'Start breaking changes with "BREAKING CHANGE: " followed by a description and migration instructions',
+      'Reference closed issues as "Closes #<number>" only when the issue number is known',
+    ],
+    examples: {
+      concise: [
+        'fix(auth): resolve null pointer in UserService.validate()\n\nvalidate() dereferenced the session before checking it exists.',
+        'feat(converter): add HemaConverter.parseData() method\n\nCallers had to parse raw payloads themselves before conversion.',
+      ],
+      detailed: `feat(cli): add virtual scrolling for file selection\n\nLong file lists overflowed the terminal and hid the selected file.\n\n${DETAILED_BULLETS}`,
+      bad: [
+        'feat: optimize enum type definitions and conversion logic',
+        'fix: improve data processing error handling mechanism',
+      ],
+    },
+  },
+  gitmoji: {
+    name: 'gitmoji',
+    label: 'gitmoji',
+    header: 'gitmoji',
+    types: [
+      { name: '✨', description: 'introduce new features', intent: 'feat' },
+      { name: '🐛', description: 'fix a bug', intent: 'fix' },
+      { name: '📝', description: 'add or update documentation', intent: 'docs' },
+      { name: '🎨', description: 'improve structure / format of the code', intent: 'style' },
+      { name: '♻️', description: 'refactor code', intent: 'refactor' },
+      { name: '✅', description: 'add, update, or pass tests', intent: 'test' },
+      { name: '🔧', description: 'add or update configuration files', intent: 'chore' },
+      { name: '⚡️', description: 'improve performance', intent: 'perf' },
+      { name: '👷', description: 'add or update CI build system', intent: 'ci' },
+      { name: '📦️', description: 'add or update compiled files or packages', intent: 'build' },
+      { name: '⏪️', description: 'revert changes', intent: 'revert' },
+      { name: '🔥', description: 'remove code or files' },
+      { name: '⬆️', description: 'upgrade dependencies' },
+      { name: '💄', description: 'add or update the UI and style files' },
+      { name: '🚑️', description: 'critical hotfix' },
+      { name: '🔒️', description: 'fix security or privacy issues' },
+    ],
+    scopes: [],
+    scopeRequired: false,
+    subjectMaxLength: 50,
+    subjectCase: 'any',
+    bodyRequired: false,
+    bodyMaxLineLength: 72,
+    bodyRules: [],
+    footerRules: [],
+    examples: {
+      concise: [
+        '🐛 (auth): resolve null pointer in UserService.validate()',
+        '✨ (converter): add HemaConverter.parseData() method',
+        '♻️ extract formatDate() to DateUtils class',
+      ],
+      detailed: `✨ (cli): add virtual scrolling for file selection\n\n${DETAILED_BULLETS}`,
+      bad: [
+        '✨ optimize enum type definitions and conversion logic',
+        '🐛 improve data processing error handling mechanism',
+      ],
+    },
+  },
+  kernel: {
+    name: 'kernel',
+    label: 'Linux kernel style',
+    header: 'subsystem',
+    types: [],
+    scopes: [],
+    scopeRequired: true,
+    subjectMaxLength: 75,
+    subjectCase: 'any',
+    bodyRequired: false,
+    bodyMaxLineLength: 72,
+    bodyRules: [
+      'Describe the problem first, then why this change solves it, in plain prose paragraphs',
+      'Write as if giving orders to the codebase ("make xyzzy do frotz", not "this patch makes")',
+    ],
+    footerRules: [
+      'Use trailers such as "Fixes: <12-char sha> (\\"subject\\")" only when the referenced commit is known',
+      'Never invent Signed-off-by, Reviewed-by or Tested-by trailers',
+    ],
+    examples: {
+      concise: [
+        'auth: fix null pointer dereference in UserService.validate()',
+        'converter: add HemaConverter.parseData()',
+        'utils: move formatDate() into DateUtils',
+      ],
+      detailed: 'cli: add virtual scrolling to the file selector\n\nLong file lists overflow the terminal, and the highlighted file can end\nup off screen with no indication of where it is.\n\nRender only a window of files around the selection, sized to the\nterminal height, and show the visible range above the list.',
+      bad: [
+        'core: optimize enum type definitions and conversion logic',
+        'misc: improve data processing error handling mechanism',
+      ],
+    },
+  },
+  imperative: {
+    name: 'imperative',
+    label: 'Plain imperative',
+    header: 'plain',
+    types: [],
+    scopes: [],
+    scopeRequired: false,
+    subjectMaxLength: 50,
+    subjectCase: 'upper',
+    bodyRequired: false,
+    bodyMaxLineLength: 72,
+    bodyRules: [
+      'Explain what and why, not how, after a blank line',
+    ],
+    footerRules: [],
+    examples: {
+      concise: [
+        'Fix null pointer in UserService.validate()',
+        'Add HemaConverter.parseData() method',
+        'Extract formatDate() into DateUtils',
+      ],
+      detailed: `Add virtual scrolling to the file selector\n\n${DETAILED_BULLETS}`,
+      bad: [
+        'Optimize enum type definitions and conversion logic',
+        'Improve data processing error handling mechanism',
+      ],
+    },
+  },
+};
+
+export const CONVENTION_PRESETS = Object.keys(CONVENTIONS) as ConventionPreset[];
+
+export function isConventionPreset(value: unknown): value is ConventionPreset {
+  return typeof value === 'string' && CONVENTION_PRESETS.includes(value as ConventionPreset);
+}
+
+export function resolveConvention(setting?: ConventionPreset | CustomConvention): Convention {
+  if (!setting) {
+    return CONVENTIONS.conventional;
+  }
+  if (typeof setting === 'string') {
+    return CONVENTIONS[setting] || CONVENTIONS.conventional;
+  }
+
+  const base = CONVENTIONS[setting.extends || 'conventional'];
+  const types = setting.types?.map(type => {
+    if (typeof type !== 'string') return type;
+    // Bare names keep the description and intent of the preset type with the same name
+    return base.types.find(baseType => baseType.name === type)
+      || CONVENTIONAL_TYPES.find(baseType => baseType.name === type)
+      || { name: type, description: type };
+  });
+
+  return {
+    ...base,
+    name: 'custom',
+    label: `Custom (based on ${base.label})`,
+    types: types || base.types,
+    scopes: setting.scopes || base.scopes,
+    scopeRequired: setting.scopeRequired ?? base.scopeRequired,
+    subjectMaxLength: setting.subjectMaxLength || base.subjectMaxLength,
+    subjectCase: setting.subjectCase || base.subjectCase,
+    bodyRequired: setting.bodyRequired ?? base.bodyRequired,
+    bodyMaxLineLength: setting.bodyMaxLineLength || base.bodyMaxLineLength,
+    bodyRules: setting.bodyRules || base.bodyRules,
+    footerRules: setting.footerRules || base.footerRules,
+    examples: setting.examples
+      ? { concise: setting.examples, detailed: base.examples.detailed, good: setting.examples, bad: base.examples.bad }
+      : base.examples,
+  };
+}
+
+// Checks the shape of a custom convention from a config file, returning a problem description or null
+export function validateCustomConvention(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return `"convention" must be one of ${CONVENTION_PRESETS.join(', ')} or an object`;
+  }
+  const custom = value as Record<string, unknown>;
+  if (custom.extends !== undefined && !isConventionPreset(custom.extends)) {
+    return `"convention.extends" must be one of ${CONVENTION_PRESETS.join(', ')}`;
+  }
+  for (const key of ['types', 'scopes', 'bodyRules', 'footerRules', 'examples']) {
+    if (custom[key] !== undefined && !Array.isArray(custom[key])) {
+      return `"convention.${key}" must be an array`;
+    }
+  }
+  for (const key of ['scopes', 'bodyRules', 'footerRules', 'examples']) {
+    if (custom[key] !== undefined && (custom[key] as unknown[]).some(entry => typeof entry !== 'string' || !entry)) {
+      return `"convention.${key}" entries must be non-empty strings`;
+    }
+  }
+  for (const type of (custom.types as unknown[] | undefined) || []) {
+    if (typeof type === 'string' && type) continue;
+    if (!type || typeof type !== 'object' || Array.isArray(type)) {
+      return '"convention.types" entries must be type names or { "name", "description" } objects';
+    }
+    const { name, description, intent } = type as Record<string, unknown>;
+    if (typeof name !== 'string' || !name || typeof description !== 'string') {
+      return '"convention.types" objects need a "name" and a "description"';
+    }
+    if (intent !== undefined && !CHANGE_INTENTS.includes(intent as ChangeIntent)) {
+      return `"convention.types" intent of "${name}" must be one of ${CHANGE_INTENTS.join(', ')}`;
+    }
+  }
+  for (const key of ['subjectMaxLength', 'bodyMaxLineLength']) {
+    if (custom[key] !== undefined && (typeof custom[key] !== 'number' || (custom[key] as number) <= 0)) {
+      return `"convention.${key}" must be a positive number`;
+    }
+  }
+  if (custom.subjectCase !== undefined && !SUBJECT_CASES.includes(custom.subjectCase as Convention['subjectCase'])) {
+    return `"convention.subjectCase" must be one of ${SUBJECT_CASES.join(', ')}`;
+  }
+  for (const key of ['scopeRequired', 'bodyRequired']) {
+    if (custom[key] !== undefined && typeof custom[key] !== 'boolean') {
+      return `"convention.${key}" must be true or false`;
+    }
+  }
+  return null;
+}
+
+export function getFormatDescription(convention: Convention): string {
+  switch (convention.header) {
+    case 'type-scope':
+      return convention.scopeRequired ? '<type>(<scope>): <description>' : '<type>[optional scope]: <description>';
+    case 'gitmoji':
+      return convention.scopeRequired ? '<emoji> (<scope>): <description>' : '<emoji> [(optional scope):] <description>';
+    case 'subsystem':
+      return '<subsystem>: <summary>';
+    default:
+      return '<Summary in imperative mood>';
+  }
+}
+
+export function getTypeForIntent(convention: Convention, intent: ChangeIntent): string {
+  const type = convention.types.find(candidate => candidate.intent === intent)
+    || convention.types.find(candidate => candidate.name === intent);
+  return type ? type.name : '';
+}
+
+export function parseHeader(header: string, convention: Convention): ParsedHeader | null {
+  let match: RegExpMatchArray | null;
+  switch (convention.header) {
+    case 'type-scope':
+      match = header.match(/^([\w-]+)(?:\(([^)]+)\))?(!)?: (.+)$/);
+      return match ? { type: match[1], scope: match[2] || null, breaking: !!match[3], subject: match[4] } : null;
+    case 'gitmoji': {
+      // Models often drop the emoji variation selector, so compare without it
+      const normalized = header.replace(/\uFE0F/g, '');
+      const type = [...convention.types]
+        .sort((a, b) => b.name.length - a.name.length)
+        .find(candidate => normalized.startsWith(candidate.name.replace(/\uFE0F/g, '')));
+      const prefix = type ? type.name.replace(/\uFE0F/g, '') : normalized.match(/^(:\w+:)/)?.[1];
+      if (!prefix) return null;
+      match = normalized.slice(prefix.length).match(/^\s*(?:\(([^)]+)\):?)?\s*(.+)$/);
+      return match ? { type: type ? type.name : prefix, scope: match[1] || null, breaking: false, subject: match[2] } : null;
+    }
+    case 'subsystem':
+      match = header.match(/^([^\s:][^:]*?): (.+)$/);
+      return match ? { type: null, scope: match[1], breaking: false, subject: match[2] } : null;
+    default:
+      return { type: null, scope: null, breaking: false, subject: header };
+  }
+}
+
+// The reverse of parseHeader, for examples written in the convention's own format
+export function formatHeader(convention: Convention, type: string, scope: string | null, subject: string): string {
+  switch (convention.header) {
+    case 'type-scope':
+      return `${type}${scope ? `(${scope})` : ''}: ${subject}`;
+    case 'gitmoji':
+      return `${type} ${scope ? `(${scope}): ` : ''}${subject}`;
+    case 'subsystem':
+      return scope ? `${scope}: ${subject}` : subject;
+    default:
+      return subject;
+  }
+}
+
+// The part of the header the length limit applies to: the subject after any type and scope
+export function getSubject(header: string, convention: Convention): string {
+  return parseHeader(header, convention)?.subject ?? header;
+}
+
+export function validateCommitMessage(message: string, convention: Convention): string[] {
+  const violations: string[] = [];
+  const lines = message.split('\n');
+  const header = lines[0] || '';
+
+  const parsed = parseHeader(header, convention);
+  if (!parsed) {
+    violations.push(`Header does not match the ${convention.label} format: ${getFormatDescription(convention)}`);
+  } else {
+    const typeNames = convention.types.map(type => type.name);
+    if (parsed.type && typeNames.length > 0 && !typeNames.includes(parsed.type)) {
+      violations.push(`Type "${parsed.type}" is not allowed (expected one of: ${typeNames.join(', ')})`);
+    }
+    if (!parsed.scope && convention.scopeRequired) {
+      violations.push(convention.header === 'subsystem' ? 'Subsystem prefix is required' : 'Scope is required');
+    }
+    if (parsed.scope && convention.scopes.length > 0 && !convention.scopes.includes(parsed.scope)) {
+      violations.push(`Scope "${parsed.scope}" is not allowed (expected one of: ${convention.scopes.join(', ')})`);
+    }
+    const firstChar = parsed.subject.charAt(0);
+    if (convention.subjectCase === 'lower' && firstChar !== firstChar.toLowerCase()) {
+      violations.push('Subject must not start with a capital letter');
+    }
+    if (convention.subjectCase === 'upper' && firstChar !== firstChar.toUpperCase()) {
+      violations.push('Subject must start with a capital letter');
+    }
+    if (/[.。]$/.test(parsed.subject)) {
+      violations.push('Subject must not end with a period');
+    }
+  }
+
+  const subject = getSubject(header, convention);
+  if (subject.length > convention.subjectMaxLength) {
+    violations.push(`Subject is ${subject.length} characters (max ${convention.subjectMaxLength})`);
+  }
+
+  if (lines.length > 1 && lines[1].trim() !== '') {
+    violations.push('Header must be followed by a blank line');
+  }
+
+  const body = lines.slice(2).join('\n').trim();
+  if (convention.bodyRequired && !body && parsed?.type !== 'docs') {
+    violations.push('Body is required');
+  }
+
+  const longLines = lines.slice(2).filter(line => line.length > convention.bodyMaxLineLength && !/^\S+:\/\/\S+$/.test(line.trim()));
+  if (longLines.length > 0) {
+    violations.push(`${longLines.length} body line${longLines.length !== 1 ? 's' : ''} longer than ${convention.bodyMaxLineLength} characters`);
+  }
+
+  return violations;
+}
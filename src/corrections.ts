@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { Convention, parseHeader } from './conventions.js';
+import { getDataDir } from './cache.js';
+
+// A generated message and what the user committed instead
+export interface Correction {
+  time: number;
+  files: string[];
+  // Scope of the corrected message, or null when it has none
+  scope: string | null;
+  generated: string;
+  final: string;
+}
+
+interface CorrectionStore {
+  repo: string;
+  corrections: Correction[];
+}
+
+export interface PruneOptions {
+  olderThanDays?: number;
+  keep?: number;
+}
+
+export const DEFAULT_CORRECTION_EXAMPLES = 3;
+
+// Oldest corrections are dropped beyond this, the team's phrasing drifts and the file is read on every run
+export const MAX_STORED_CORRECTIONS = 200;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// One file per repository, named by a hash so that paths with any characters work on every platform
+const getStorePath = (repo: string) =>
+  join(getDataDir(), 'corrections', `${createHash('sha256').update(repo).digest('hex').slice(0, 16)}.json`);
+
+// Whitespace-only edits teach nothing
+const normalize = (message: string) => message.trim().split('\n').map(line => line.trimEnd()).join('\n');
+
+export function loadCorrections(repo: string): Correction[] {
+  const path = getStorePath(repo);
+  if (!existsSync(path)) return [];
+  try {
+    const store: CorrectionStore = JSON.parse(readFileSync(path, 'utf-8'));
+    return Array.isArray(store.corrections) ? store.corrections : [];
+  } catch (error) {
+    throw new Error(`Failed to read stored corrections: ${error}`);
+  }
+}
+
+function saveCorrections(repo: string, corrections: Correction[]): void {
+  const path = getStorePath(repo);
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    const store: CorrectionStore = { repo, corrections };
+    writeFileSync(path, JSON.stringify(store, null, 2));
+  } catch (error) {
+    throw new Error(`Failed to save corrections: ${error}`);
+  }
+}
+
+// Returns whether the edit was stored. Like the usage log this is bookkeeping, it must not fail a commit.
+export function recordCorrection(repo: string, convention: Convention, edit: Pick<Correction, 'files' | 'generated' | 'final'>): boolean {
+  const generated = normalize(edit.generated);
+  const final = normalize(edit.final);
+  if (!generated || !final || generated === final) return false;
+  try {
+    const corrections = loadCorrections(repo).filter(correction => correction.generated !== generated || correction.final !== final);
+    const scope = parseHeader(final.split('\n')[0], convention)?.scope ?? null;
+    corrections.push({ time: Date.now(), files: edit.files, scope, generated, final });
+    saveCorrections(repo, corrections.slice(-MAX_STORED_CORRECTIONS));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Files at the root have nothing in common beyond the repository itself
+const getDirectories = (files: string[]) => new Set(files.map(file => dirname(file)).filter(directory => directory !== '.'));
+
+// Touching the same files says the most, then the same directories, then the scope the message would likely get
+function scoreCorrection(correction: Correction, files: string[], scope: string): number {
+  const sharedFiles = correction.files.filter(file => files.includes(file)).length;
+  const directories = getDirectories(files);
+  const sharedDirectories = [...getDirectories(correction.files)].filter(directory => directories.has(directory)).length;
+  const sameScope = scope !== '' && correction.scope === scope ? 1 : 0;
+  return sharedFiles * 3 + sharedDirectories + sameScope * 2;
+}
+
+// The most relevant corrections for a change, newest first among equally relevant ones; unrelated ones are never picked
+export function selectCorrections(corrections: Correction[], files: string[], scope: string, count: number): Correction[] {
+  return corrections
+    .map(correction => ({ correction, score: scoreCorrection(correction, files, scope) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.correction.time - a.correction.time)
+    .slice(0, count)
+    .map(({ correction }) => correction);
+}
+
+// Numbers are 1-based, as shown by `examples list`
+export function removeCorrections(repo: string, numbers: number[]): number {
+  const corrections = loadCorrections(repo);
+  const kept = corrections.filter((_, index) => !numbers.includes(index + 1));
+  saveCorrections(repo, kept);
+  return corrections.length - kept.length;
+}
+
+export function pruneCorrections(repo: string, options: PruneOptions): number {
+  const corrections = loadCorrections(repo);
+  let kept = options.olderThanDays !== undefined
+    ? corrections.filter(correction => Date.now() - correction.time <= options.olderThanDays! * DAY)
+    : corrections;
+  if (options.keep !== undefined) {
+    kept = options.keep > 0 ? kept.slice(-options.keep) : [];
+  }
+  saveCorrections(repo, kept);
+  return corrections.length - kept.length;
+}
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { Text, Box, useInput } from 'ink';
+import { getTerminalHeight, getVisibleRange } from './scroll.js';
+
+export interface FilePreview {
+  file: string;
+  content: string;
+}
+
+interface DiffPreviewProps {
+  previews: FilePreview[];
+  initialIndex?: number;
+  onClose: () => void;
+}
+
+interface Segment {
+  text: string;
+  color?: string;
+}
+
+interface PreviewLine {
+  text: string;
+  color?: string;
+  bold?: boolean;
+  dim?: boolean;
+  // Syntax-coloured pieces of the line, when the file's language is known
+  segments?: Segment[];
+}
+
+interface Language {
+  keywords: Set<string>;
+  // Groups: comment, string, number, word
+  pattern: RegExp;
+}
+
+// Enough to read any reasonable change, without rendering megabytes of generated code
+const MAX_PREVIEW_LINES = 2000;
+
+// Lines are coloured one at a time, so a block comment is only recognised on the line it starts
+const C_COMMENT = String.raw`\/\/.*|\/\*.*?(?:\*\/|$)`;
+const HASH_COMMENT = '#.*';
+
+const defineLanguage = (keywords: string, comment: string, quotes: string): Language => {
+  const strings = [...quotes].map(quote => `${quote}(?:[^${quote}\\\\]|\\\\.)*${quote}`).join('|');
+  return {
+    keywords: new Set(keywords.split(' ')),
+    pattern: new RegExp(`(${comment})|(${strings})|(\\b\\d[\\w.]*)|([A-Za-z_$][\\w$]*)`, 'g'),
+  };
+};
+
+const LANGUAGES: { extensions: string[]; language: Language }[] = [
+  {
+    extensions: ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'mts', 'cts'],
+    language: defineLanguage('as async await break case catch class const continue default delete do else enum export extends false finally for from function if implements import in instanceof interface let new null of private protected public readonly return static super switch this throw true try type typeof undefined var void while yield', C_COMMENT, '"\'`'),
+  },
+  {
+    extensions: ['py'],
+    language: defineLanguage('and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield', HASH_COMMENT, '"\''),
+  },
+  {
+    extensions: ['go'],
+    language: defineLanguage('break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var', C_COMMENT, '"\'`'),
+  },
+  {
+    // No single quotes, lifetimes like 'a would be taken for the start of a string
+    extensions: ['rs'],
+    language: defineLanguage('as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while', C_COMMENT, '"'),
+  },
+  {
+    extensions: ['c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'java', 'kt', 'swift'],
+    language: defineLanguage('auto break case catch char class const continue default do double else enum extends false final float for fun if implements import int let long namespace new null nullptr package private protected public return short signed sizeof static struct switch template this throw true try typedef union unsigned using val var virtual void volatile while', C_COMMENT, '"\''),
+  },
+  {
+    extensions: ['sh', 'bash', 'zsh'],
+    language: defineLanguage('case do done elif else esac export fi for function if in local return then until while', HASH_COMMENT, '"\''),
+  },
+  {
+    extensions: ['rb'],
+    language: defineLanguage('begin class def do else elsif end ensure false if module next nil require rescue return self then true unless until when while yield', HASH_COMMENT, '"\''),
+  },
+];
+
+const getLanguage = (file: string): Language | null => {
+  const extension = file.includes('.') ? file.slice(file.lastIndexOf('.') + 1).toLowerCase() : '';
+  return LANGUAGES.find(entry => entry.extensions.includes(extension))?.language ?? null;
+};
+
+// Keywords, strings, numbers and comments get their own colour, the rest keeps the colour of the diff line
+const highlight = (code: string, language: Language, color?: string): Segment[] => {
+  const segments: Segment[] = [];
+  let last = 0;
+  for (const match of code.matchAll(language.pattern)) {
+    const [text, comment, string, number, word] = match;
+    const tokenColor = comment ? 'gray' : string ? 'yellow' : number ? 'blue' : word && language.keywords.has(word) ? 'magenta' : undefined;
+    if (!tokenColor) continue;
+    if (match.index! > last) segments.push({ text: code.slice(last, match.index), color });
+    segments.push({ text, color: tokenColor });
+    last = match.index! + text.length;
+  }
+  segments.push({ text: code.slice(last), color });
+  return segments;
+};
+
+const getFileName = (section: string): string => {
+  const renamed = section.match(/^rename to (.+)$/m);
+  if (renamed) return renamed[1];
+  const target = section.match(/^\+\+\+ b\/(.+)$/m) || section.match(/^--- a\/(.+)$/m);
+  if (target) return target[1];
+  const header = section.match(/^diff --git a\/.+ b\/(.+)$/m);
+  return header ? header[1] : section.split('\n')[0];
+};
+
+export function splitDiffByFile(content: string): FilePreview[] {
+  return content
+    .split(/^(?=diff --git )/m)
+    .filter(section => section.startsWith('diff --git '))
+    .map(section => ({ file: getFileName(section), content: section.trimEnd() }));
+}
+
+const formatLines = (file: string, content: string): { lines: PreviewLine[]; hidden: number } => {
+  const lines: PreviewLine[] = [];
+  const language = getLanguage(file);
+  // The +/- marker keeps the diff colour so added and removed lines stay recognisable
+  const codeLine = (line: string, color?: string): PreviewLine => language
+    ? { text: line, segments: [{ text: line[0], color }, ...highlight(line.slice(1), language, color)] }
+    : { text: line, color };
+  const raw = content.split('\n');
+  const renameFrom = content.match(/^rename from (.+)$/m);
+  const renameTo = content.match(/^rename to (.+)$/m);
+  const similarity = content.match(/^similarity index (\d+)%$/m);
+
+  if (renameFrom && renameTo) {
+    lines.push({ text: `Renamed ${renameFrom[1]} → ${renameTo[1]}${similarity ? ` (${similarity[1]}% similar)` : ''}`, color: 'magenta', bold: true });
+  }
+
+  let inHunks = false;
+  for (const line of raw) {
+    if (line.startsWith('@@')) {
+      inHunks = true;
+      lines.push({ text: line, color: 'cyan' });
+    } else if (!inHunks) {
+      if (/^(Binary files|GIT binary patch)/.test(line)) {
+        lines.push({ text: 'Binary file, no preview available', color: 'yellow' });
+      } else if (/^(new file|deleted file|old mode|new mode)/.test(line)) {
+        lines.push({ text: line, color: 'yellow' });
+      } else if (!/^(rename |similarity index|index |diff --git )/.test(line)) {
+        lines.push({ text: line, bold: true });
+      }
+    } else if (line.startsWith('+')) {
+      lines.push(codeLine(line, 'green'));
+    } else if (line.startsWith('-')) {
+      lines.push(codeLine(line, 'red'));
+    } else if (line.startsWith('\\')) {
+      lines.push({ text: line, dim: true });
+    } else if (line) {
+      lines.push(codeLine(line));
+    } else {
+      lines.push({ text: line });
+    }
+  }
+
+  if (lines.length === 0) {
+    lines.push({ text: 'No textual changes', color: 'gray' });
+  }
+
+  const hidden = Math.max(0, lines.length - MAX_PREVIEW_LINES);
+  return { lines: lines.slice(0, MAX_PREVIEW_LINES), hidden };
+};
+
+export const DiffPreview: React.FC<DiffPreviewProps> = ({ previews, initialIndex = 0, onClose }) => {
+  const [fileIndex, setFileIndex] = useState(initialIndex);
+  const [position, setPosition] = useState(0);
+
+  const terminalHeight = getTerminalHeight();
+  const reservedLines = 8; // Title, file name, help text, scroll indicator, spacing
+  const maxVisibleLines = Math.max(5, terminalHeight - reservedLines);
+  const halfWindow = Math.floor(maxVisibleLines / 2);
+
+  const preview = previews[fileIndex];
+  const { lines, hidden } = formatLines(preview ? preview.file : '', preview ? preview.content : '');
+
+  // The window is centred on the position, so keep it where every key press actually scrolls
+  const minPosition = Math.min(halfWindow, lines.length - 1);
+  const maxPosition = Math.max(minPosition, lines.length - 1 - (maxVisibleLines - halfWindow - 1));
+  const current = Math.min(Math.max(position, minPosition), maxPosition);
+
+  const scroll = (offset: number) => {
+    setPosition(Math.min(Math.max(current + offset, minPosition), maxPosition));
+  };
+
+  const switchFile = (offset: number) => {
+    const next = fileIndex + offset;
+    if (next >= 0 && next < previews.length) {
+      setFileIndex(next);
+      setPosition(0);
+    }
+  };
+
+  useInput((input, key) => {
+    if (key.upArrow || input === 'k') {
+      scroll(-1);
+    } else if (key.downArrow || input === 'j') {
+      scroll(1);
+    } else if (key.pageUp || input === 'b') {
+      scroll(-maxVisibleLines);
+    } else if (key.pageDown || input === ' ') {
+      scroll(maxVisibleLines);
+    } else if (input === 'g') {
+      setPosition(minPosition);
+    } else if (input === 'G') {
+      setPosition(maxPosition);
+    } else if (key.leftArrow || key.shift && key.tab) {
+      switchFile(-1);
+    } else if (key.rightArrow || key.tab) {
+      switchFile(1);
+    } else if (key.escape || input === 'q' || input === 'v') {
+      onClose();
+    }
+  });
+
+  const { start: visibleStart, end: visibleEnd } = getVisibleRange(current, lines.length, maxVisibleLines);
+
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan" bold>
+        Diff: {preview ? preview.file : '(none)'}
+        {previews.length > 1 && <Text color="gray"> ({fileIndex + 1}/{previews.length})</Text>}
+      </Text>
+      <Text color="gray">
+        Use ↑/↓ to scroll, PgUp/PgDn or b/space to page, g/G for start/end{previews.length > 1 ? ', ←/→ to switch file' : ''}, ESC or 'q' to close
+      </Text>
+      <Text></Text>
+
+      <Box flexDirection="column" borderStyle="single" borderColor="gray" paddingX={1}>
+        {lines.slice(visibleStart, visibleEnd).map((line, index) => (
+          <Text key={visibleStart + index} color={line.color} bold={line.bold} dimColor={line.dim} wrap="truncate-end">
+            {line.segments
+              ? line.segments.map((segment, part) => (
+                <Text key={part} color={segment.color}>{segment.text.replace(/\t/g, '    ')}</Text>
+              ))
+              : line.text.replace(/\t/g, '    ') || ' '}
+          </Text>
+        ))}
+      </Box>
+
+      <Text color="gray">
+        Lines {lines.length === 0 ? 0 : visibleStart + 1}-{visibleEnd} of {lines.length}
+        {hidden > 0 ? ` (${hidden} more lines not shown)` : ''}
+      </Text>
+    </Box>
+  );
+};
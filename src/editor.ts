@@ -0,0 +1,38 @@
+import { execa } from 'execa';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getEditor } from './git.js';
+
+const COMMENT = `
+# Edit the commit message above. Lines starting with '#' are ignored,
+# an empty message keeps the previous one.
+`;
+
+// Returns the edited message, or null when the user left it empty
+export async function editInExternalEditor(message: string): Promise<string | null> {
+  const dir = mkdtempSync(join(tmpdir(), 'one-commit-'));
+  const file = join(dir, 'COMMIT_EDITMSG');
+
+  try {
+    writeFileSync(file, `${message}\n${COMMENT}`);
+    const editor = await getEditor();
+
+    try {
+      // Run through the shell like git does, so editors configured with arguments ("code --wait") work
+      await execa('sh', ['-c', `${editor} "$1"`, editor, file], { stdio: 'inherit' });
+    } catch (error) {
+      throw new Error(`Editor "${editor}" failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const edited = readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter(line => !line.startsWith('#'))
+      .map(line => line.trimEnd())
+      .join('\n')
+      .trim();
+    return edited || null;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Text, Box } from 'ink';
+import Spinner from 'ink-spinner';
+import { SummaryChunk } from './types.js';
+
+interface GenerationViewProps {
+  label: string;
+  text: string;
+  // Parts of a large change that are summarized before the message is written
+  chunks?: SummaryChunk[];
+  // Why the request is taking longer, e.g. a retry after a rate limit
+  notice?: string;
+}
+
+// Only the tail of the reasoning is interesting while it is still being written
+const MAX_THINKING_LINES = 6;
+
+// Finished chunks scroll away, running and pending ones stay visible
+const MAX_CHUNK_LINES = 8;
+
+const getSection = (text: string, tag: string): string | null => {
+  const start = text.indexOf(`<${tag}>`);
+  if (start === -1) return null;
+  const end = text.indexOf(`</${tag}>`, start);
+  return text.slice(start + tag.length + 2, end === -1 ? undefined : end).trim();
+};
+
+export const GenerationView: React.FC<GenerationViewProps> = ({ label, text, chunks = [], notice }) => {
+  const thinking = getSection(text, 'thinking');
+  // Models that skip the tags still get their output shown
+  const result = getSection(text, 'result') ?? (thinking === null ? text.trim() : null);
+  const thinkingLines = thinking ? thinking.split('\n').filter(Boolean) : [];
+
+  const finished = chunks.filter(chunk => chunk.status === 'done');
+  const unfinished = chunks.filter(chunk => chunk.status !== 'done');
+  const done = finished.length;
+  const summarizing = chunks.length > 0 && done < chunks.length;
+  // Finished chunks only get the lines the unfinished ones leave, and more unfinished ones than lines are counted below
+  const hiddenDone = Math.max(0, done - Math.max(0, MAX_CHUNK_LINES - unfinished.length));
+  const hiddenPending = Math.max(0, unfinished.length - MAX_CHUNK_LINES);
+  const visibleChunks = [...finished.slice(hiddenDone), ...unfinished].slice(0, MAX_CHUNK_LINES);
+
+  return (
+    <Box flexDirection="column">
+      <Text>
+        <Spinner type="dots" /> {summarizing ? `Summarizing large change (${done}/${chunks.length} parts)...` : label} <Text color="gray">(press ESC to cancel)</Text>
+      </Text>
+      {notice && <Text color="yellow">↻ {notice}</Text>}
+
+      {chunks.length > 0 && (
+        <>
+          <Text></Text>
+          {hiddenDone > 0 && (
+            <Text color="gray">✓ {hiddenDone} more part{hiddenDone !== 1 ? 's' : ''} summarized</Text>
+          )}
+          {visibleChunks.map(chunk => (
+            <Text key={chunk.files[0]} wrap="truncate-end" color={chunk.status === 'pending' ? 'gray' : undefined}>
+              {chunk.status === 'done' ? <Text color="green">✓</Text> : chunk.status === 'running' ? <Spinner type="dots" /> : '·'} {chunk.label}
+            </Text>
+          ))}
+          {hiddenPending > 0 && (
+            <Text color="gray">· {hiddenPending} more part{hiddenPending !== 1 ? 's' : ''} waiting</Text>
+          )}
+        </>
+      )}
+
+      {thinkingLines.length > 0 && (
+        <>
+          <Text></Text>
+          <Text color="gray" bold>Thinking:</Text>
+          {thinkingLines.length > MAX_THINKING_LINES && (
+            <Text color="gray">...</Text>
+          )}
+          {thinkingLines.slice(-MAX_THINKING_LINES).map((line, index) => (
+            <Text key={index} color="gray" wrap="truncate-end">{line}</Text>
+          ))}
+        </>
+      )}
+
+      {result && (
+        <>
+          <Text></Text>
+          <Text color="green" bold>Commit message:</Text>
+          <Box borderStyle="single" borderColor="gray" paddingX={1}>
+            <Text>{result}</Text>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
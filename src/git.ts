@@ -1,5 +1,5 @@
 import { execa } from 'execa';
-import { GitDiff } from './types.js';
+import { GitDiff, CommitLogEntry } from './types.js';
 
 export async function isGitRepository(): Promise<boolean> {
   try {
@@ -89,9 +89,9 @@ export async function stageAllChanges(): Promise<void> {
   }
 }
 
-export async function commit(message: string): Promise<void> {
+export async function commit(message: string, amend: boolean = false): Promise<void> {
   try {
-    await execa('git', ['commit', '-m', message]);
+    await execa('git', ['commit', ...(amend ? ['--amend'] : []), '-m', message]);
   } catch (error) {
     throw new Error(`Failed to commit: ${error}`);
   }
@@ -188,10 +188,430 @@ export async function getRecentCommits(count: number = 10): Promise<string[]> {
       return [];
     }
     
-    const { stdout } = await execa('git', ['log', `--oneline`, `-${count}`, '--pretty=format:%s']);
-    return stdout.trim().split('\n').filter(Boolean);
+    const entries = await getCommitLog({ count });
+    return entries.map(entry => entry.subject);
   } catch (error) {
     // If any error occurs (including no commits), return empty array
     return [];
   }
-}
\ No newline at end of file
+}
+
+export async function getCommitLog(options: { range?: string; count?: number; noMerges?: boolean } = {}): Promise<CommitLogEntry[]> {
+  try {
+    // NUL between fields and RS between commits, neither can appear in a commit message
+    const { stdout } = await execa('git', [
+      'log',
+      '--format=%H%x00%s%x00%b%x00%(trailers:only,unfold)%x1e',
+      ...(options.count ? [`-${options.count}`] : []),
+      ...(options.noMerges ? ['--no-merges'] : []),
+      ...(options.range ? [options.range] : []),
+      '--',
+    ]);
+    return stdout
+      .split('\x1e')
+      .map(entry => entry.replace(/^\n/, ''))
+      .filter(Boolean)
+      .map(entry => {
+        const [hash, subject, body, trailers] = entry.split('\x00');
+        return {
+          hash,
+          subject,
+          body: body.trim(),
+          trailers: trailers
+            .split('\n')
+            .map(line => line.match(/^([\w-]+):\s*(.*)$/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => ({ key: match[1], value: match[2].trim() })),
+        };
+      });
+  } catch (error) {
+    throw new Error(`Failed to read commit log: ${error}`);
+  }
+}
+
+// Subjects and changed files of non-merge commits, newest first; with since only the commits after it
+export async function getCommitFiles(options: { since?: string; count?: number } = {}): Promise<{ hash: string; subject: string; files: string[] }[]> {
+  try {
+    const { stdout } = await execa('git', [
+      'log',
+      '--no-merges',
+      '--name-only',
+      '--format=%x1e%H%x00%s',
+      ...(options.count ? [`-${options.count}`] : []),
+      options.since ? `${options.since}..HEAD` : 'HEAD',
+      '--',
+    ]);
+    return stdout
+      .split('\x1e')
+      .filter(Boolean)
+      .map(entry => {
+        const [header, ...files] = entry.split('\n');
+        const [hash, subject] = header.split('\x00');
+        return { hash, subject, files: files.filter(Boolean) };
+      });
+  } catch (error) {
+    throw new Error(`Failed to read commit history: ${error}`);
+  }
+}
+
+export async function isAncestor(ancestor: string, commit: string): Promise<boolean> {
+  try {
+    await execa('git', ['merge-base', '--is-ancestor', ancestor, commit]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getLatestTag(): Promise<string | null> {
+  try {
+    const { stdout } = await execa('git', ['describe', '--tags', '--abbrev=0']);
+    return stdout.trim() || null;
+  } catch {
+    // No tags reachable from HEAD
+    return null;
+  }
+}
+
+export async function stageMatchingFiles(patterns: string[]): Promise<void> {
+  try {
+    if (patterns.length === 0) return;
+    // Use git's glob pathspec magic so patterns like "dist/**/*.js" behave the same everywhere
+    await execa('git', ['add', '--all', '--', ...patterns.map(pattern => `:(glob)${pattern}`)]);
+  } catch (error) {
+    throw new Error(`Failed to stage files: ${error}`);
+  }
+}
+
+export async function getHooksDir(): Promise<string> {
+  try {
+    // --git-path honours core.hooksPath, so we always land where git will look for hooks
+    const { stdout } = await execa('git', ['rev-parse', '--git-path', 'hooks']);
+    return stdout.trim();
+  } catch (error) {
+    throw new Error(`Failed to locate hooks directory: ${error}`);
+  }
+}
+
+export async function getConfigValue(key: string): Promise<string | null> {
+  try {
+    const { stdout } = await execa('git', ['config', '--get', key]);
+    return stdout.trim() || null;
+  } catch {
+    // git config exits non-zero when the key is unset
+    return null;
+  }
+}
+
+export async function getRepoRoot(): Promise<string> {
+  try {
+    const { stdout } = await execa('git', ['rev-parse', '--show-toplevel']);
+    return stdout.trim();
+  } catch (error) {
+    throw new Error(`Failed to locate repository root: ${error}`);
+  }
+}
+
+export async function getHeadCommit(): Promise<string | null> {
+  try {
+    const { stdout } = await execa('git', ['rev-parse', '--verify', 'HEAD']);
+    return stdout.trim();
+  } catch {
+    // No commits yet
+    return null;
+  }
+}
+
+export async function saveIndex(): Promise<string> {
+  try {
+    // write-tree snapshots the index exactly, including partially staged files
+    const { stdout } = await execa('git', ['write-tree']);
+    return stdout.trim();
+  } catch (error) {
+    throw new Error(`Failed to save index: ${error}`);
+  }
+}
+
+export async function restoreIndex(tree: string): Promise<void> {
+  try {
+    await execa('git', ['read-tree', tree]);
+  } catch (error) {
+    throw new Error(`Failed to restore index: ${error}`);
+  }
+}
+
+export async function resetHeadTo(commit: string | null): Promise<void> {
+  try {
+    if (commit) {
+      await execa('git', ['reset', '--soft', commit]);
+    } else {
+      // The branch had no commits, so make it unborn again
+      await execa('git', ['update-ref', '-d', 'HEAD']);
+    }
+  } catch (error) {
+    throw new Error(`Failed to reset HEAD: ${error}`);
+  }
+}
+
+export async function getStagedPaths(): Promise<string[]> {
+  try {
+    // --no-renames lists both sides of a rename, so each path can be staged on its own
+    const { stdout } = await execa('git', ['diff', '--cached', '--name-only', '--no-renames']);
+    return stdout.trim().split('\n').filter(Boolean);
+  } catch (error) {
+    throw new Error(`Failed to get staged paths: ${error}`);
+  }
+}
+
+export async function getFileDiff(file: string): Promise<string> {
+  try {
+    const { stdout } = await execa('git', ['diff', '--no-color', '--no-ext-diff', '--', file]);
+    return stdout;
+  } catch (error) {
+    throw new Error(`Failed to get diff for ${file}: ${error}`);
+  }
+}
+
+export async function applyPatchToIndex(patch: string): Promise<void> {
+  try {
+    await execa('git', ['apply', '--cached', '-'], { input: patch });
+  } catch (error) {
+    throw new Error(`Failed to stage hunks: ${error}`);
+  }
+}
+
+export async function getUntrackedFileDiff(file: string): Promise<string> {
+  try {
+    // --no-index exits with 1 whenever the files differ, which for a new file is always
+    const { stdout, exitCode, stderr } = await execa('git', ['diff', '--no-color', '--no-ext-diff', '--no-index', '--', '/dev/null', file], { reject: false });
+    if (exitCode !== 0 && exitCode !== 1) {
+      throw new Error(stderr);
+    }
+    return stdout;
+  } catch (error) {
+    throw new Error(`Failed to get diff for ${file}: ${error}`);
+  }
+}
+
+export async function getEditor(): Promise<string> {
+  try {
+    // git var resolves GIT_EDITOR, core.editor, VISUAL and EDITOR in git's own order
+    const { stdout } = await execa('git', ['var', 'GIT_EDITOR']);
+    return stdout.trim();
+  } catch {
+    return process.env.GIT_EDITOR || process.env.VISUAL || process.env.EDITOR || 'vi';
+  }
+}
+
+export async function getHeadMessage(): Promise<string> {
+  try {
+    const { stdout } = await execa('git', ['log', '-1', '--format=%B']);
+    return stdout.trim();
+  } catch (error) {
+    throw new Error(`Failed to read the last commit message: ${error}`);
+  }
+}
+
+export async function getAmendChanges(): Promise<GitDiff> {
+  try {
+    // Compare the index with HEAD's parent, so the diff covers HEAD plus anything newly staged
+    let base: string;
+    try {
+      await execa('git', ['rev-parse', '--verify', 'HEAD^']);
+      base = 'HEAD^';
+    } catch {
+      // HEAD is the root commit, compare against the empty tree instead
+      const { stdout } = await execa('git', ['hash-object', '-t', 'tree', '/dev/null']);
+      base = stdout.trim();
+    }
+
+    const { stdout: files } = await execa('git', ['diff', '--cached', base, '--name-only']);
+    const { stdout: stats } = await execa('git', ['diff', '--cached', base, '--numstat']);
+    const { stdout: content } = await execa('git', ['diff', '--cached', base]);
+
+    const fileList = files.trim().split('\n').filter(Boolean);
+
+    let additions = 0;
+    let deletions = 0;
+
+    if (stats.trim()) {
+      stats.trim().split('\n').forEach(line => {
+        const [add, del] = line.split('\t');
+        if (add !== '-') additions += parseInt(add, 10);
+        if (del !== '-') deletions += parseInt(del, 10);
+      });
+    }
+
+    return {
+      files: fileList,
+      additions,
+      deletions,
+      content: content.trim(),
+    };
+  } catch (error) {
+    throw new Error(`Failed to get changes to amend: ${error}`);
+  }
+}
+
+export async function getCommitChanges(commit: string): Promise<GitDiff> {
+  try {
+    // git show diffs the root commit against the empty tree on its own
+    const { stdout: files } = await execa('git', ['show', '--format=', '--name-only', commit]);
+    const { stdout: stats } = await execa('git', ['show', '--format=', '--numstat', commit]);
+    const { stdout: content } = await execa('git', ['show', '--format=', '--no-color', '--no-ext-diff', commit]);
+
+    const fileList = files.trim().split('\n').filter(Boolean);
+
+    let additions = 0;
+    let deletions = 0;
+
+    if (stats.trim()) {
+      stats.trim().split('\n').forEach(line => {
+        const [add, del] = line.split('\t');
+        if (add !== '-') additions += parseInt(add, 10);
+        if (del !== '-') deletions += parseInt(del, 10);
+      });
+    }
+
+    return {
+      files: fileList,
+      additions,
+      deletions,
+      content: content.trim(),
+    };
+  } catch (error) {
+    throw new Error(`Failed to get changes of ${commit}: ${error}`);
+  }
+}
+
+export async function listCommits(range: string, options: { merges?: boolean } = {}): Promise<{ hash: string; message: string }[]> {
+  try {
+    const { stdout } = await execa('git', [
+      'log', '--reverse', '--format=%H%x00%B%x1e', ...(options.merges ? ['--merges'] : []), range, '--',
+    ]);
+    return stdout
+      .split('\x1e')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [hash, message] = entry.split('\x00');
+        return { hash, message: message.trim() };
+      });
+  } catch (error) {
+    throw new Error(`Failed to list commits in ${range}: ${error}`);
+  }
+}
+
+export async function getParentCommit(commit: string): Promise<string | null> {
+  try {
+    const { stdout } = await execa('git', ['rev-parse', '--verify', '-q', `${commit}^`]);
+    return stdout.trim();
+  } catch {
+    // Root commit
+    return null;
+  }
+}
+
+export async function getCurrentBranch(): Promise<string | null> {
+  try {
+    const { stdout } = await execa('git', ['symbolic-ref', '-q', '--short', 'HEAD']);
+    return stdout.trim() || null;
+  } catch {
+    // Detached HEAD
+    return null;
+  }
+}
+
+export async function hasTrackedChanges(): Promise<boolean> {
+  try {
+    const { stdout } = await execa('git', ['status', '--porcelain', '--untracked-files=no']);
+    return stdout.trim().length > 0;
+  } catch (error) {
+    throw new Error(`Failed to check working tree status: ${error}`);
+  }
+}
+
+export async function rebaseWithTodo(upstream: string | null, todoFile: string): Promise<void> {
+  try {
+    // The sequence editor swaps git's todo list for ours, so the rebase runs without user interaction
+    await execa('git', ['rebase', '-i', '--no-autosquash', upstream ?? '--root'], {
+      env: { GIT_SEQUENCE_EDITOR: `cp '${todoFile.replace(/'/g, `'\\''`)}'`, GIT_EDITOR: 'true' },
+    });
+  } catch (error) {
+    throw new Error(`Rebase failed: ${error}`);
+  }
+}
+
+export async function abortRebase(): Promise<void> {
+  // Nothing to abort when the rebase never started or already finished
+  await execa('git', ['rebase', '--abort'], { reject: false });
+}
+
+export async function resetHard(commit: string): Promise<void> {
+  try {
+    await execa('git', ['reset', '-q', '--hard', commit]);
+  } catch (error) {
+    throw new Error(`Failed to reset to ${commit}: ${error}`);
+  }
+}
+
+export async function getUpstreamBranch(): Promise<string | null> {
+  try {
+    const { stdout } = await execa('git', ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}']);
+    return stdout.trim() || null;
+  } catch {
+    // No upstream configured
+    return null;
+  }
+}
+
+export async function getRemoteDefaultBranch(remote: string): Promise<string | null> {
+  try {
+    // Set by clone (or `git remote set-head`), e.g. refs/remotes/origin/HEAD -> origin/main
+    const { stdout } = await execa('git', ['symbolic-ref', '-q', '--short', `refs/remotes/${remote}/HEAD`]);
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function refExists(ref: string): Promise<boolean> {
+  try {
+    await execa('git', ['rev-parse', '--verify', '-q', `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getBranchChanges(base: string): Promise<GitDiff> {
+  try {
+    // Three dots diff against the merge base, so commits that landed on the base since don't show up
+    const range = `${base}...HEAD`;
+    const { stdout: files } = await execa('git', ['diff', range, '--name-only']);
+    const { stdout: stats } = await execa('git', ['diff', range, '--numstat']);
+    const { stdout: content } = await execa('git', ['diff', '--no-color', '--no-ext-diff', range]);
+
+    const fileList = files.trim().split('\n').filter(Boolean);
+
+    let additions = 0;
+    let deletions = 0;
+
+    if (stats.trim()) {
+      stats.trim().split('\n').forEach(line => {
+        const [add, del] = line.split('\t');
+        if (add !== '-') additions += parseInt(add, 10);
+        if (del !== '-') deletions += parseInt(del, 10);
+      });
+    }
+
+    return {
+      files: fileList,
+      additions,
+      deletions,
+      content: content.trim(),
+    };
+  } catch (error) {
+    throw new Error(`Failed to get changes against ${base}: ${error}`);
+  }
+}
@@ -0,0 +1,150 @@
+import chalk from 'chalk';
+import * as git from './git.js';
+import * as ai from './ai.js';
+import { hasValidConfig } from './config.js';
+import { SensitiveContentError } from './secrets.js';
+import { ApiError } from './providers.js';
+import { describeExcluded } from './ignore.js';
+import { describeAge } from './cache.js';
+import { describeUsage } from './usage.js';
+
+export interface HeadlessOptions {
+  yes?: boolean;
+  dryRun?: boolean;
+  print?: boolean;
+  all?: boolean;
+  files?: string[];
+  amend?: boolean;
+}
+
+// Exit codes are part of the CLI contract for scripts, keep them stable
+export const ExitCode = {
+  SUCCESS: 0,
+  ERROR: 1,
+  NO_CHANGES: 2,
+  API_FAILURE: 3,
+  COMMIT_FAILURE: 4,
+  SENSITIVE_CONTENT: 5,
+} as const;
+
+export function isHeadless(options: HeadlessOptions): boolean {
+  return !!(options.yes || options.dryRun || options.print);
+}
+
+// Status output goes to stderr so stdout only ever carries the commit message
+const log = (message: string) => {
+  process.stderr.write(message + '\n');
+};
+
+export async function runHeadless(options: HeadlessOptions): Promise<number> {
+  const isRepo = await git.isGitRepository();
+  if (!isRepo) {
+    log(chalk.red('❌ Error: Not a git repository'));
+    return ExitCode.ERROR;
+  }
+
+  if (!hasValidConfig()) {
+    log(chalk.red('❌ Error: AI provider not configured. Please run with --config to set it up.'));
+    return ExitCode.ERROR;
+  }
+
+  const willCommit = !!options.yes && !options.dryRun && !options.print;
+  const willStage = !!options.all || (options.files?.length ?? 0) > 0;
+  // Without a commit the index must look exactly as before, partially staged files included
+  let savedIndex: string | null = null;
+
+  try {
+    if (willStage && !willCommit) {
+      savedIndex = await git.saveIndex();
+    }
+    if (options.all) {
+      await git.stageAllChanges();
+    } else if (options.files && options.files.length > 0) {
+      await git.stageMatchingFiles(options.files);
+    }
+  } catch (err) {
+    log(chalk.red(`❌ Error: ${err instanceof Error ? err.message : err}`));
+    return ExitCode.ERROR;
+  }
+
+  const staged = await git.getStagedChanges();
+
+  const restoreIndex = async () => {
+    if (savedIndex) await git.restoreIndex(savedIndex);
+  };
+
+  if (options.amend && !await git.getHeadCommit()) {
+    await restoreIndex();
+    log(chalk.red('❌ Error: Nothing to amend, the repository has no commits yet'));
+    return ExitCode.ERROR;
+  }
+
+  const diff = options.amend ? await git.getAmendChanges() : staged;
+
+  if (diff.files.length === 0) {
+    log(chalk.yellow('No staged changes to commit (use --all or --files to stage changes)'));
+    return ExitCode.NO_CHANGES;
+  }
+
+  let message: string;
+  try {
+    const summarized = new Set<string>();
+    const result = await ai.generateCommitMessage(diff, {
+      onRetry: notice => log(chalk.yellow(`↻ ${notice}`)),
+      onChunkProgress: chunks => {
+        // A prompt that was too long is chunked again from scratch
+        if (chunks.every(chunk => chunk.status === 'pending')) summarized.clear();
+        chunks
+          .filter(chunk => chunk.status === 'done' && !summarized.has(chunk.files[0]))
+          .forEach(chunk => {
+            summarized.add(chunk.files[0]);
+            log(chalk.gray(`Summarized part ${summarized.size}/${chunks.length}: ${chunk.label}`));
+          });
+      },
+    });
+    message = result.message;
+    result.warnings.forEach(warning => log(chalk.yellow(`⚠️  ${warning}`)));
+    if (result.excluded.length > 0) {
+      log(chalk.gray(`Not sent to the model (ignore rules): ${describeExcluded(result.excluded)}`));
+    }
+    if (result.cachedAt) {
+      log(chalk.gray(`♻️  Cached message from ${describeAge(result.cachedAt)} (use --no-cache for a new one)`));
+    }
+    if (result.usage.requests > 0) {
+      log(chalk.gray(`💰 ${describeUsage(result.usage)}`));
+    }
+    result.violations.forEach(violation => log(chalk.yellow(`⚠️  Issue: ${violation}`)));
+  } catch (err) {
+    await restoreIndex();
+    log(chalk.red(`❌ Error: ${err instanceof Error ? err.message : 'Failed to generate commit message'}`));
+    if (err instanceof ApiError && err.suggestion) {
+      log(chalk.gray(`💡 ${err.suggestion}`));
+    }
+    return err instanceof SensitiveContentError ? ExitCode.SENSITIVE_CONTENT : ExitCode.API_FAILURE;
+  }
+
+  await restoreIndex();
+
+  if (options.print) {
+    process.stdout.write(message + '\n');
+    return ExitCode.SUCCESS;
+  }
+
+  if (!willCommit) {
+    log(chalk.cyan(`Files: ${diff.files.join(', ')} (+${diff.additions} -${diff.deletions})`));
+    log(chalk.gray('Dry run, nothing committed. Generated commit message:'));
+    process.stdout.write(message + '\n');
+    return ExitCode.SUCCESS;
+  }
+
+  try {
+    await git.commit(message, options.amend);
+  } catch (err) {
+    log(chalk.red(`❌ Error: ${err instanceof Error ? err.message : 'Failed to commit'}`));
+    return ExitCode.COMMIT_FAILURE;
+  }
+
+  log(chalk.green(`✅ Successfully ${options.amend ? 'amended' : 'committed'}!`));
+  log(chalk.gray(`[${message.split('\n')[0]}] ${diff.files.length} file${diff.files.length !== 1 ? 's' : ''} changed (+${diff.additions} -${diff.deletions})`));
+  return ExitCode.SUCCESS;
+}
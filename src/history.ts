@@ -0,0 +1,206 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { getCommitFiles, getHeadCommit, getRepoRoot, isAncestor } from './git.js';
+import { getCacheDir } from './cache.js';
+import { Convention, parseHeader } from './conventions.js';
+
+// How the repository's own commits are written, counted over its history
+export interface HistoryProfile {
+  version: number;
+  // Last commit counted, later runs only read the commits after it
+  head: string;
+  commits: number;
+  types: Record<string, number>;
+  // Directory → scope → number of commits that touched the directory with that scope
+  scopes: Record<string, Record<string, number>>;
+  // Directory → type → number of commits
+  pathTypes: Record<string, Record<string, number>>;
+  // Number of subjects per length in characters, longer ones counted at the last index
+  subjectLengths: number[];
+  languages: { zh: number; en: number };
+}
+
+// Suggestions from history, each only set when the history agrees on it
+export interface HistorySuggestion {
+  type: string | null;
+  scope: string | null;
+}
+
+// Bumped whenever the counts change meaning, older profiles are built again
+const PROFILE_VERSION = 1;
+
+// The first run reads this many commits, later runs only what is new
+const MAX_HISTORY_COMMITS = 5000;
+
+// Deeper directories rarely have enough commits of their own to say anything
+const MAX_PATH_DEPTH = 3;
+
+const MAX_SUBJECT_LENGTH = 120;
+
+// A suggestion needs this many commits and this share of them behind it
+const MIN_EVIDENCE = 3;
+const MIN_SHARE = 0.5;
+
+const CJK = /[\u3400-\u9fff]/;
+
+const profiles = new Map<string, Promise<HistoryProfile | null>>();
+
+const emptyProfile = (head: string): HistoryProfile => ({
+  version: PROFILE_VERSION,
+  head,
+  commits: 0,
+  types: {},
+  scopes: {},
+  pathTypes: {},
+  subjectLengths: new Array(MAX_SUBJECT_LENGTH + 1).fill(0),
+  languages: { zh: 0, en: 0 },
+});
+
+// "src/api/users.ts" is in src and src/api; files at the root only say something about the whole repository
+const getDirectories = (file: string): string[] => {
+  const parts = file.split('/').slice(0, -1).slice(0, MAX_PATH_DEPTH);
+  return parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+};
+
+const increment = (counts: Record<string, number>, key: string) => {
+  counts[key] = (counts[key] || 0) + 1;
+};
+
+function addCommit(profile: HistoryProfile, commit: { subject: string; files: string[] }, convention: Convention): void {
+  profile.commits++;
+  profile.subjectLengths[Math.min([...commit.subject].length, MAX_SUBJECT_LENGTH)]++;
+  profile.languages[CJK.test(commit.subject) ? 'zh' : 'en']++;
+
+  const parsed = parseHeader(commit.subject, convention);
+  if (parsed?.type) increment(profile.types, parsed.type);
+  const directories = new Set(commit.files.flatMap(getDirectories));
+  for (const directory of directories) {
+    if (parsed?.scope) increment(profile.scopes[directory] ??= {}, parsed.scope);
+    if (parsed?.type) increment(profile.pathTypes[directory] ??= {}, parsed.type);
+  }
+}
+
+// Profiles depend on how subjects are parsed, so every convention gets its own
+const getProfilePath = (repo: string, convention: Convention) => {
+  const key = [repo, convention.header, ...convention.types.map(type => type.name)].join('\0');
+  return join(getCacheDir(), 'history', `${createHash('sha256').update(key).digest('hex').slice(0, 16)}.json`);
+};
+
+const readProfile = (path: string): HistoryProfile | null => {
+  try {
+    const profile: HistoryProfile = JSON.parse(readFileSync(path, 'utf-8'));
+    return profile.version === PROFILE_VERSION ? profile : null;
+  } catch {
+    return null;
+  }
+};
+
+async function buildProfile(convention: Convention): Promise<HistoryProfile | null> {
+  const head = await getHeadCommit();
+  if (!head) return null;
+
+  const path = getProfilePath(await getRepoRoot(), convention);
+  const cached = existsSync(path) ? readProfile(path) : null;
+  if (cached?.head === head) return cached;
+
+  // After a rebase or reset the counted commits may be gone, then the profile starts over
+  const incremental = cached !== null && await isAncestor(cached.head, head);
+  const profile = incremental ? cached : emptyProfile(head);
+  const commits = await getCommitFiles(incremental ? { since: cached.head } : { count: MAX_HISTORY_COMMITS });
+  commits.forEach(commit => addCommit(profile, commit, convention));
+  profile.head = head;
+
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(profile));
+  } catch {
+    // Without a cache the next run reads the history again
+  }
+  return profile;
+}
+
+// Read once per run; a repository without commits, or any failure reading it, means no profile
+export function getHistoryProfile(convention: Convention): Promise<HistoryProfile | null> {
+  const key = `${process.cwd()}\0${convention.name}`;
+  if (!profiles.has(key)) {
+    profiles.set(key, buildProfile(convention).catch(() => null));
+  }
+  return profiles.get(key)!;
+}
+
+// Counts of the deepest directory with history, summed over the changed files
+function countForFiles(byDirectory: Record<string, Record<string, number>>, files: string[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const file of files) {
+    const directory = getDirectories(file).reverse().find(candidate => byDirectory[candidate]);
+    if (!directory) continue;
+    for (const [value, count] of Object.entries(byDirectory[directory])) {
+      totals.set(value, (totals.get(value) || 0) + count);
+    }
+  }
+  return totals;
+}
+
+const sortByCount = (counts: Map<string, number>) => [...counts.entries()].sort((a, b) => b[1] - a[1]);
+
+function findDominant(counts: Map<string, number>): string | null {
+  const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  const [top] = sortByCount(counts);
+  return top && total >= MIN_EVIDENCE && top[1] / total >= MIN_SHARE ? top[0] : null;
+}
+
+export function suggestFromHistory(profile: HistoryProfile, files: string[]): HistorySuggestion {
+  return {
+    type: findDominant(countForFiles(profile.pathTypes, files)),
+    scope: findDominant(countForFiles(profile.scopes, files)),
+  };
+}
+
+function getPercentile(lengths: number[], percentile: number): number {
+  const total = lengths.reduce((sum, count) => sum + count, 0);
+  let seen = 0;
+  for (let length = 0; length < lengths.length; length++) {
+    seen += lengths[length];
+    if (seen >= total * percentile) return length;
+  }
+  return lengths.length - 1;
+}
+
+// A short summary for the prompt, in the prompt's language; empty when the history is too short to go by
+export function describeHistoryProfile(profile: HistoryProfile, files: string[], convention: Convention, language: 'en' | 'zh'): string {
+  if (profile.commits < MIN_EVIDENCE) return '';
+  const zh = language === 'zh';
+  const subsystem = convention.header === 'subsystem';
+  const lines: string[] = [];
+
+  const typed = Object.values(profile.types).reduce((sum, count) => sum + count, 0);
+  if (typed > 0) {
+    const types = sortByCount(new Map(Object.entries(profile.types)))
+      .slice(0, 6)
+      .map(([type, count]) => `${type} ${Math.round(count / typed * 100)}%`);
+    lines.push(`${zh ? '类型：' : 'Types: '}${types.join(', ')}`);
+  }
+
+  const scopes = sortByCount(countForFiles(profile.scopes, files)).slice(0, 5);
+  if (scopes.length > 0) {
+    const label = zh ? `这些路径使用过的${subsystem ? '子系统' : '作用域'}：` : `${subsystem ? 'Subsystems' : 'Scopes'} used for these paths: `;
+    lines.push(`${label}${scopes.map(([scope, count]) => `${scope} (${count})`).join(', ')}`);
+  }
+
+  const median = getPercentile(profile.subjectLengths, 0.5);
+  const upper = getPercentile(profile.subjectLengths, 0.9);
+  lines.push(zh
+    ? `标题长度：中位数${median}个字符，90%不超过${upper}个字符`
+    : `Subject length: median ${median} characters, 90% within ${upper}`);
+
+  const zhShare = profile.languages.zh / profile.commits;
+  const languageName = zhShare > 0.7
+    ? (zh ? '主要为中文' : 'mostly Chinese')
+    : zhShare < 0.3 ? (zh ? '主要为英文' : 'mostly English') : (zh ? '中英文混合' : 'mixed Chinese and English');
+  lines.push(`${zh ? '语言：' : 'Language: '}${languageName}`);
+
+  return zh
+    ? `## 本仓库的提交风格\n基于${profile.commits}个历史提交：\n${lines.map(line => `- ${line}`).join('\n')}\n在符合上述规范的前提下，请沿用这种风格。\n\n`
+    : `## Commit Style of This Repository\nFrom ${profile.commits} commits in the history:\n${lines.map(line => `- ${line}`).join('\n')}\nFollow this style where the rules above allow it.\n\n`;
+}
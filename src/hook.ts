@@ -0,0 +1,140 @@
+import { readFileSync, writeFileSync, existsSync, renameSync, unlinkSync, mkdirSync, chmodSync, statSync } from 'fs';
+import { resolve, join } from 'path';
+import chalk from 'chalk';
+import * as git from './git.js';
+import * as ai from './ai.js';
+import { hasValidConfig } from './config.js';
+
+const HOOK_NAME = 'prepare-commit-msg';
+const CHAINED_HOOK_NAME = `${HOOK_NAME}.one-commit-chained`;
+const HOOK_MARKER = '# one-commit prepare-commit-msg hook';
+
+export interface HookStatus {
+  hooksDir: string;
+  hooksPath: string | null;
+  installed: boolean;
+  chained: boolean;
+  foreignHook: boolean;
+}
+
+function createHookScript(): string {
+  return `#!/bin/sh
+${HOOK_MARKER}
+# Installed by "one-commit hook install", remove with "one-commit hook uninstall"
+
+HOOK_DIR=$(dirname "$0")
+if [ -x "$HOOK_DIR/${CHAINED_HOOK_NAME}" ]; then
+  "$HOOK_DIR/${CHAINED_HOOK_NAME}" "$@" || exit $?
+fi
+
+# Only fill plain "git commit"; leave -m/-F, templates, merge, squash and amend alone
+if [ -n "$2" ]; then
+  exit 0
+fi
+
+if command -v one-commit >/dev/null 2>&1; then
+  one-commit hook run "$1" < /dev/null || true
+else
+  npx --yes @beiyuz/one-commit hook run "$1" < /dev/null || true
+fi
+`;
+}
+
+function isOneCommitHook(path: string): boolean {
+  try {
+    return readFileSync(path, 'utf-8').includes(HOOK_MARKER);
+  } catch {
+    return false;
+  }
+}
+
+async function resolveHooksDir(): Promise<string> {
+  const isRepo = await git.isGitRepository();
+  if (!isRepo) {
+    throw new Error('Not a git repository');
+  }
+  return resolve(process.cwd(), await git.getHooksDir());
+}
+
+export async function getHookStatus(): Promise<HookStatus> {
+  const hooksDir = await resolveHooksDir();
+  const hookPath = join(hooksDir, HOOK_NAME);
+  const installed = isOneCommitHook(hookPath);
+
+  return {
+    hooksDir,
+    hooksPath: await git.getConfigValue('core.hooksPath'),
+    installed,
+    chained: existsSync(join(hooksDir, CHAINED_HOOK_NAME)),
+    foreignHook: existsSync(hookPath) && !installed,
+  };
+}
+
+export async function installHook(): Promise<HookStatus> {
+  const hooksDir = await resolveHooksDir();
+  const hookPath = join(hooksDir, HOOK_NAME);
+  const chainedPath = join(hooksDir, CHAINED_HOOK_NAME);
+
+  if (existsSync(hooksDir) && !statSync(hooksDir).isDirectory()) {
+    throw new Error(`Hooks directory ${hooksDir} is not a directory (check core.hooksPath)`);
+  }
+  mkdirSync(hooksDir, { recursive: true });
+
+  if (existsSync(hookPath) && !isOneCommitHook(hookPath)) {
+    if (existsSync(chainedPath)) {
+      throw new Error(`Cannot chain existing hook: ${chainedPath} already exists`);
+    }
+    // Keep the existing hook and run it before ours
+    renameSync(hookPath, chainedPath);
+  }
+
+  writeFileSync(hookPath, createHookScript());
+  chmodSync(hookPath, 0o755);
+
+  return getHookStatus();
+}
+
+export async function uninstallHook(): Promise<HookStatus> {
+  const hooksDir = await resolveHooksDir();
+  const hookPath = join(hooksDir, HOOK_NAME);
+  const chainedPath = join(hooksDir, CHAINED_HOOK_NAME);
+
+  if (!existsSync(hookPath) || !isOneCommitHook(hookPath)) {
+    throw new Error(`No one-commit hook installed in ${hooksDir}`);
+  }
+
+  unlinkSync(hookPath);
+  if (existsSync(chainedPath)) {
+    renameSync(chainedPath, hookPath);
+  }
+
+  return getHookStatus();
+}
+
+// Entry point for the installed hook script. It must never block a commit, so every failure is a warning.
+export async function runHook(messageFile: string): Promise<void> {
+  try {
+    const existing = readFileSync(messageFile, 'utf-8');
+    const hasMessage = existing.split('\n').some(line => line.trim() !== '' && !line.startsWith('#'));
+    if (hasMessage) {
+      // A chained hook or the user already provided a message
+      return;
+    }
+
+    if (!hasValidConfig()) {
+      process.stderr.write(chalk.yellow('one-commit: AI provider not configured, skipping message generation\n'));
+      return;
+    }
+
+    const diff = await git.getStagedChanges();
+    if (diff.files.length === 0) {
+      return;
+    }
+
+    process.stderr.write(chalk.gray('one-commit: generating commit message...\n'));
+    const { message } = await ai.generateCommitMessage(diff);
+    writeFileSync(messageFile, `${message}\n${existing}`);
+  } catch (err) {
+    process.stderr.write(chalk.yellow(`one-commit: ${err instanceof Error ? err.message : err}\n`));
+  }
+}
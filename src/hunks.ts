@@ -0,0 +1,127 @@
+import * as git from './git.js';
+import { StagingSelection } from './types.js';
+
+export interface Hunk {
+  oldStart: number;
+  newStart: number;
+  lines: string[];
+}
+
+export interface FileDiff {
+  file: string;
+  header: string[];
+  hunks: Hunk[];
+}
+
+// Which change blocks of each hunk are selected, indexed [hunk][block]
+export type HunkSelection = boolean[][];
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// Only plain modifications can be staged partially, creations, deletions and binary files go in whole
+export function parseFileDiff(file: string, content: string): FileDiff | null {
+  const header: string[] = [];
+  const hunks: Hunk[] = [];
+
+  for (const line of content.split('\n')) {
+    const match = line.match(HUNK_HEADER);
+    if (match) {
+      hunks.push({ oldStart: parseInt(match[1], 10), newStart: parseInt(match[2], 10), lines: [] });
+    } else if (hunks.length > 0) {
+      if (line !== '') hunks[hunks.length - 1].lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+
+  const whole = header.some(line => /^(new file|deleted file|Binary files|GIT binary patch)/.test(line));
+  if (whole || hunks.length === 0) {
+    return null;
+  }
+  return { file, header, hunks };
+}
+
+const isChange = (line: string) => line.startsWith('+') || line.startsWith('-');
+
+// A block is a run of consecutive added/removed lines, the unit `git add -p` splits a hunk into
+export function getBlockIndexes(hunk: Hunk): number[] {
+  let block = -1;
+  let previousWasChange = false;
+  return hunk.lines.map(line => {
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" belongs to the line before it
+      return previousWasChange ? block : -1;
+    }
+    const change = isChange(line);
+    if (change && !previousWasChange) block++;
+    previousWasChange = change;
+    return change ? block : -1;
+  });
+}
+
+export function countBlocks(hunk: Hunk): number {
+  return Math.max(-1, ...getBlockIndexes(hunk)) + 1;
+}
+
+export function createSelection(diff: FileDiff, selected: boolean): HunkSelection {
+  return diff.hunks.map(hunk => Array(countBlocks(hunk)).fill(selected));
+}
+
+export function getSelectionState(selection: HunkSelection): 'all' | 'none' | 'partial' {
+  const flags = selection.flat();
+  if (flags.every(Boolean)) return 'all';
+  if (!flags.some(Boolean)) return 'none';
+  return 'partial';
+}
+
+// Unselected removals are kept as context and unselected additions dropped, so the patch stays applicable
+export function buildPatch(diff: FileDiff, selection: HunkSelection): string | null {
+  const output: string[] = [];
+  let offset = 0;
+
+  diff.hunks.forEach((hunk, hunkIndex) => {
+    const selectedBlocks = selection[hunkIndex] || [];
+    if (!selectedBlocks.some(Boolean)) return;
+
+    const blocks = getBlockIndexes(hunk);
+    const lines: string[] = [];
+    let keptPrevious = true;
+    hunk.lines.forEach((line, lineIndex) => {
+      if (line.startsWith('\\')) {
+        if (keptPrevious) lines.push(line);
+        return;
+      }
+      const block = blocks[lineIndex];
+      if (block === -1 || selectedBlocks[block]) {
+        lines.push(line);
+        keptPrevious = true;
+      } else if (line.startsWith('-')) {
+        lines.push(' ' + line.slice(1));
+        keptPrevious = true;
+      } else {
+        keptPrevious = false;
+      }
+    });
+
+    const oldLines = lines.filter(line => line.startsWith(' ') || line.startsWith('-')).length;
+    const newLines = lines.filter(line => line.startsWith(' ') || line.startsWith('+')).length;
+    output.push(`@@ -${hunk.oldStart},${oldLines} +${hunk.oldStart + offset},${newLines} @@`, ...lines);
+    offset += newLines - oldLines;
+  });
+
+  if (output.length === 0) {
+    return null;
+  }
+  return [...diff.header, ...output].join('\n') + '\n';
+}
+
+export async function loadFileDiff(file: string): Promise<FileDiff | null> {
+  return parseFileDiff(file, await git.getFileDiff(file));
+}
+
+export async function stageSelection(selection: StagingSelection): Promise<void> {
+  await git.stageFiles(selection.files);
+  for (const patch of selection.patches) {
+    await git.applyPatchToIndex(patch);
+  }
+}
@@ -0,0 +1,158 @@
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+export const IGNORE_FILE = '.onecommitignore';
+
+// Files that are big, generated and say little about the intent of a change
+export const DEFAULT_IGNORE_PATTERNS = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+  '*.snap',
+  '__snapshots__/',
+  'dist/',
+  'build/',
+  'vendor/',
+];
+
+export interface ExcludedFile {
+  file: string;
+  additions: number;
+  deletions: number;
+}
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export type IgnoreMatcher = (path: string) => boolean;
+
+// Translates one gitignore glob into a regex for a single path, without the leading and trailing anchors
+const globToRegex = (glob: string): string => {
+  let regex = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atStart && atEnd) {
+          // "**/" matches zero or more directories, a trailing "**" everything below
+          regex += i + 2 === glob.length ? '.*' : '(?:.*/)?';
+          i += 2;
+          continue;
+        }
+      }
+      regex += '[^/]*';
+      while (glob[i + 1] === '*') i++;
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        regex += '\\[';
+        continue;
+      }
+      const set = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      regex += `[${set}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      regex += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      regex += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return regex;
+};
+
+const parseRule = (line: string): IgnoreRule | null => {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  const negated = pattern.startsWith('!');
+  if (negated) pattern = pattern.slice(1);
+  pattern = pattern.replace(/^\\([#!])/, '$1');
+
+  const directoryOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to the repository root, otherwise it matches at any depth
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  const body = globToRegex(pattern);
+
+  return {
+    regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`),
+    negated,
+    directoryOnly,
+  };
+};
+
+export function createIgnoreMatcher(patterns: string[]): IgnoreMatcher {
+  const rules = patterns.map(parseRule).filter((rule): rule is IgnoreRule => rule !== null);
+
+  return (path: string) => {
+    const parts = path.split('/');
+    // Like git, a file is ignored when it or any of its parent directories matches; the last matching rule wins
+    let ignored = false;
+    for (const rule of rules) {
+      const matches = parts.some((_, index) => {
+        const isDirectory = index < parts.length - 1;
+        if (rule.directoryOnly && !isDirectory) return false;
+        return rule.regex.test(parts.slice(0, index + 1).join('/'));
+      });
+      if (matches) ignored = !rule.negated;
+    }
+    return ignored;
+  };
+}
+
+// The built-in defaults come first, so `!dist/` in .onecommitignore sends a directory again
+export function loadIgnoreMatcher(root: string): IgnoreMatcher {
+  const filePath = join(root, IGNORE_FILE);
+  const patterns = existsSync(filePath) ? readFileSync(filePath, 'utf-8').split(/\r?\n/) : [];
+  return createIgnoreMatcher([...DEFAULT_IGNORE_PATTERNS, ...patterns]);
+}
+
+const countChanges = (section: string): Omit<ExcludedFile, 'file'> => {
+  const lines = section.split('\n');
+  const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+  const changes = firstHunk === -1 ? [] : lines.slice(firstHunk);
+  return {
+    additions: changes.filter(line => line.startsWith('+')).length,
+    deletions: changes.filter(line => line.startsWith('-')).length,
+  };
+};
+
+// Replaces the hunks of matching files with a one-line summary, so they stay visible without using up the prompt
+export function excludeIgnoredFiles(content: string, isIgnored: IgnoreMatcher): { content: string; excluded: ExcludedFile[] } {
+  const excluded: ExcludedFile[] = [];
+  const sections = content.split(/^(?=diff --git )/m).map(section => {
+    const match = section.match(/^diff --git a\/.+? b\/(.+)$/m);
+    if (!match || !isIgnored(match[1])) return section;
+
+    const file = match[1];
+    const { additions, deletions } = countChanges(section);
+    excluded.push({ file, additions, deletions });
+    return `${section.split('\n')[0]}\n[${file}: +${additions} -${deletions} lines, content excluded by ignore rules]\n`;
+  });
+  return { content: sections.join(''), excluded };
+}
+
+export function describeExcluded(excluded: ExcludedFile[]): string {
+  return excluded.map(({ file, additions, deletions }) => `${file} (+${additions} -${deletions})`).join(', ');
+}
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Text, Box, useInput } from 'ink';
+import { getTerminalHeight, getVisibleRange } from './scroll.js';
+import { Convention, getSubject } from './conventions.js';
+
+interface MessageEditorProps {
+  initialMessage: string;
+  // Counted like the validation does, without the type and scope
+  convention: Convention;
+  bodyWidth: number;
+  onSubmit: (message: string) => void;
+  onOpenExternal: (message: string) => void;
+  onCancel: () => void;
+}
+
+interface Cursor {
+  row: number;
+  col: number;
+}
+
+// Continuation lines of a bullet line up with the text after the bullet, not with the bullet itself
+const getContinuationIndent = (line: string): string => {
+  const match = line.match(/^(\s*)([-*•]\s+|\d+[.)]\s+)?/);
+  return match ? match[1] + ' '.repeat(match[2]?.length || 0) : '';
+};
+
+function wrapLine(line: string, width: number): string[] {
+  const lines: string[] = [];
+  const indent = getContinuationIndent(line);
+  let rest = line;
+  while (rest.length > width) {
+    const breakAt = rest.lastIndexOf(' ', width);
+    // A single word longer than the width (e.g. a URL) is left alone
+    if (breakAt <= indent.length) break;
+    lines.push(rest.slice(0, breakAt).trimEnd());
+    rest = indent + rest.slice(breakAt + 1).trimStart();
+  }
+  lines.push(rest);
+  return lines;
+}
+
+const splitMessage = (message: string): { subject: string; body: string[] } => {
+  const [subject = '', ...rest] = message.split('\n');
+  // The blank separator line is implied by the editor layout
+  while (rest.length > 0 && rest[0].trim() === '') rest.shift();
+  return { subject, body: rest.length > 0 ? rest : [''] };
+};
+
+function joinMessage(subject: string, body: string[], bodyWidth: number): string {
+  const wrapped = body.flatMap(line => wrapLine(line.trimEnd(), bodyWidth));
+  while (wrapped.length > 0 && wrapped[wrapped.length - 1] === '') wrapped.pop();
+  return wrapped.length > 0 ? `${subject.trim()}\n\n${wrapped.join('\n')}` : subject.trim();
+}
+
+export const MessageEditor: React.FC<MessageEditorProps> = ({
+  initialMessage,
+  convention,
+  bodyWidth,
+  onSubmit,
+  onOpenExternal,
+  onCancel,
+}) => {
+  const initial = splitMessage(initialMessage);
+  // Row 0 is the subject, row n is body line n - 1
+  const [lines, setLines] = useState<string[]>([initial.subject, ...initial.body]);
+  const [cursor, setCursor] = useState<Cursor>({ row: 0, col: initial.subject.length });
+
+  const terminalHeight = getTerminalHeight();
+  const reservedLines = 12; // Title, help text, subject, counters, separators, scroll indicator
+  const maxVisibleLines = Math.max(5, terminalHeight - reservedLines);
+
+  const currentMessage = () => joinMessage(lines[0], lines.slice(1), bodyWidth);
+
+  const insertText = (text: string) => {
+    const next = [...lines];
+    let { row, col } = cursor;
+    const pieces = text.replace(/\r\n?/g, '\n').split('\n');
+
+    pieces.forEach((piece, index) => {
+      if (index > 0) {
+        // A line break in the subject jumps to the body instead of splitting the subject
+        if (row === 0) {
+          row = 1;
+          col = 0;
+          if (next.length === 1) next.push('');
+          return;
+        }
+        next.splice(row + 1, 0, next[row].slice(col));
+        next[row] = next[row].slice(0, col);
+        row++;
+        col = 0;
+      }
+      next[row] = next[row].slice(0, col) + piece + next[row].slice(col);
+      col += piece.length;
+
+      // Wrap body lines as they are typed; the cursor follows the text it was in
+      if (row > 0 && next[row].length > bodyWidth) {
+        const atEnd = col === next[row].length;
+        const wrapped = wrapLine(next[row], bodyWidth);
+        if (wrapped.length > 1) {
+          next.splice(row, 1, ...wrapped);
+          if (atEnd) {
+            row += wrapped.length - 1;
+            col = next[row].length;
+          } else if (col > wrapped[0].length) {
+            // Typing inside a line only ever pushes its last word over the edge
+            col = Math.min(col - wrapped[0].length - 1 + getContinuationIndent(wrapped[0]).length, wrapped[1].length);
+            row += 1;
+          }
+        }
+      }
+    });
+
+    setLines(next);
+    setCursor({ row, col });
+  };
+
+  const deleteBackward = () => {
+    const { row, col } = cursor;
+    const next = [...lines];
+    if (col > 0) {
+      next[row] = next[row].slice(0, col - 1) + next[row].slice(col);
+      setLines(next);
+      setCursor({ row, col: col - 1 });
+    } else if (row > 1) {
+      const previousLength = next[row - 1].length;
+      next[row - 1] += next[row];
+      next.splice(row, 1);
+      setLines(next);
+      setCursor({ row: row - 1, col: previousLength });
+    } else if (row === 1) {
+      // Never merge the body into the subject, just move up
+      setCursor({ row: 0, col: next[0].length });
+    }
+  };
+
+  const moveVertical = (offset: number) => {
+    const row = Math.min(Math.max(cursor.row + offset, 0), lines.length - 1);
+    setCursor({ row, col: Math.min(cursor.col, lines[row].length) });
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+    } else if (key.ctrl && input === 's') {
+      if (lines[0].trim()) onSubmit(currentMessage());
+    } else if (key.ctrl && input === 'o') {
+      onOpenExternal(currentMessage());
+    } else if (key.ctrl && input === 'a') {
+      setCursor({ ...cursor, col: 0 });
+    } else if (key.ctrl && input === 'e') {
+      setCursor({ ...cursor, col: lines[cursor.row].length });
+    } else if (key.upArrow) {
+      moveVertical(-1);
+    } else if (key.downArrow) {
+      moveVertical(1);
+    } else if (key.leftArrow) {
+      if (cursor.col > 0) {
+        setCursor({ ...cursor, col: cursor.col - 1 });
+      } else if (cursor.row > 0) {
+        setCursor({ row: cursor.row - 1, col: lines[cursor.row - 1].length });
+      }
+    } else if (key.rightArrow) {
+      if (cursor.col < lines[cursor.row].length) {
+        setCursor({ ...cursor, col: cursor.col + 1 });
+      } else if (cursor.row < lines.length - 1) {
+        setCursor({ row: cursor.row + 1, col: 0 });
+      }
+    } else if (key.backspace || key.delete) {
+      deleteBackward();
+    } else if (key.return) {
+      insertText('\n');
+    } else if (input && !key.ctrl && !key.meta) {
+      insertText(input);
+    }
+  });
+
+  const renderLine = (line: string, row: number) => {
+    if (row !== cursor.row) {
+      return line || ' ';
+    }
+    const before = line.slice(0, cursor.col);
+    const at = line[cursor.col] || ' ';
+    const after = line.slice(cursor.col + 1);
+    return (
+      <>
+        {before}
+        <Text inverse>{at}</Text>
+        {after}
+      </>
+    );
+  };
+
+  const subjectLength = getSubject(lines[0], convention).length;
+  const { subjectMaxLength } = convention;
+  const body = lines.slice(1);
+  const bodyCursor = Math.max(0, cursor.row - 1);
+  const { start: visibleStart, end: visibleEnd } = getVisibleRange(bodyCursor, body.length, maxVisibleLines);
+
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan" bold>Edit commit message:</Text>
+      <Text color="gray">Ctrl+S to save, Ctrl+O to open in your editor, ESC to discard changes</Text>
+      <Text></Text>
+
+      <Text>
+        <Text color="gray">Subject </Text>
+        <Text color={subjectLength > subjectMaxLength ? 'red' : 'green'}>({subjectLength}/{subjectMaxLength})</Text>
+      </Text>
+      <Box borderStyle="single" borderColor={cursor.row === 0 ? 'blue' : 'gray'} paddingX={1}>
+        <Text>{renderLine(lines[0], 0)}</Text>
+      </Box>
+
+      <Text>
+        <Text color="gray">Body </Text>
+        <Text color="gray">(wrapped at {bodyWidth} columns{body.length > maxVisibleLines ? `, lines ${visibleStart + 1}-${visibleEnd} of ${body.length}` : ''})</Text>
+      </Text>
+      <Box flexDirection="column" borderStyle="single" borderColor={cursor.row > 0 ? 'blue' : 'gray'} paddingX={1}>
+        {body.slice(visibleStart, visibleEnd).map((line, index) => {
+          const row = visibleStart + index + 1;
+          return (
+            <Text key={row} color={line.length > bodyWidth ? 'yellow' : undefined}>
+              {renderLine(line, row)}
+            </Text>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import { Text, Box, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import TextInput from 'ink-text-input';
+import * as git from './git.js';
+import * as ai from './ai.js';
+import { getConfig } from './config.js';
+import { resolveConvention, validateCommitMessage } from './conventions.js';
+import { collectWorkingTreeDiff, executePlan, moveFile, moveGroup, PlanProgress } from './plan.js';
+import { getTerminalHeight, getVisibleRange } from './scroll.js';
+import { CommitGroup } from './types.js';
+import { ApiError } from './providers.js';
+
+interface PlanEditorProps {
+  initialGroups: CommitGroup[];
+  onExecute: (groups: CommitGroup[]) => void;
+  onCancel: () => void;
+}
+
+interface PlanFlowProps {
+  onExit: () => void;
+}
+
+type PlanRow = { type: 'group'; group: number } | { type: 'file'; group: number; file: string };
+
+const buildRows = (groups: CommitGroup[]): PlanRow[] =>
+  groups.flatMap((group, index) => [
+    { type: 'group' as const, group: index },
+    ...group.files.map(file => ({ type: 'file' as const, group: index, file })),
+  ]);
+
+const PlanEditor: React.FC<PlanEditorProps> = ({ initialGroups, onExecute, onCancel }) => {
+  const [groups, setGroups] = useState<CommitGroup[]>(initialGroups);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [editingGroup, setEditingGroup] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const convention = resolveConvention(getConfig().convention);
+  const rows = buildRows(groups);
+  const row = rows[selectedIndex];
+
+  const terminalHeight = getTerminalHeight();
+  const reservedLines = 10; // Title, help text, notice, spacing, scroll indicator
+  const maxVisibleRows = Math.max(5, terminalHeight - reservedLines);
+
+  // Drop empty groups but keep the cursor on the same row
+  const updateGroups = (next: CommitGroup[], focus?: PlanRow) => {
+    const compacted = next.filter(group => group.files.length > 0 || group.message.trim());
+    setGroups(compacted);
+    if (focus) {
+      const nextRows = buildRows(compacted);
+      const found = nextRows.findIndex(candidate =>
+        focus.type === 'file'
+          ? candidate.type === 'file' && candidate.file === focus.file
+          : candidate.type === 'group' && compacted[candidate.group] === next[focus.group]
+      );
+      setSelectedIndex(Math.max(0, found));
+    }
+  };
+
+  useInput((input, key) => {
+    if (editingGroup !== null) {
+      if (key.escape) {
+        setEditingGroup(null);
+      }
+      return;
+    }
+
+    setNotice('');
+    if (key.upArrow && selectedIndex > 0) {
+      setSelectedIndex(selectedIndex - 1);
+    } else if (key.downArrow && selectedIndex < rows.length - 1) {
+      setSelectedIndex(selectedIndex + 1);
+    } else if ((key.leftArrow || key.rightArrow) && row?.type === 'file') {
+      // Moving right past the last commit starts a new one
+      const target = row.group + (key.rightArrow ? 1 : -1);
+      if (target < 0) return;
+      const next = moveFile(groups, row.file, target);
+      updateGroups(next, { type: 'file', group: target, file: row.file });
+    } else if ((input === 'K' || input === 'J') && row) {
+      const next = moveGroup(groups, row.group, input === 'K' ? -1 : 1);
+      const target = Math.min(Math.max(row.group + (input === 'K' ? -1 : 1), 0), groups.length - 1);
+      updateGroups(next, row.type === 'file' ? row : { type: 'group', group: target });
+    } else if (input === 'e' && row) {
+      setEditingGroup(row.group);
+      setEditValue(groups[row.group].message);
+    } else if (key.return) {
+      const steps = groups.filter(group => group.files.length > 0);
+      if (steps.length === 0) {
+        setNotice('The plan has no files to commit');
+      } else if (steps.some(group => !group.message.trim())) {
+        setNotice("Every commit needs a message, press 'e' to write one");
+      } else {
+        onExecute(steps);
+      }
+    } else if (key.escape || key.ctrl && input === 'c') {
+      onCancel();
+    }
+  });
+
+  const handleEditSubmit = (value: string) => {
+    if (editingGroup === null) return;
+    const next = groups.map((group, index) => index === editingGroup ? { ...group, message: value.trim() } : group);
+    setGroups(next);
+    setEditingGroup(null);
+  };
+
+  const { start: visibleStart, end: visibleEnd } = getVisibleRange(selectedIndex, rows.length, maxVisibleRows);
+
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan" bold>Commit plan ({groups.filter(group => group.files.length > 0).length} commits):</Text>
+      <Text color="gray">Use ↑/↓ to navigate, ←/→ to move a file to the previous/next commit, 'e' to edit a message</Text>
+      <Text color="gray">Press Shift+K/J to move a commit up/down, enter to run the plan, ESC to cancel</Text>
+      <Text></Text>
+
+      {rows.length > maxVisibleRows && (
+        <>
+          <Text color="gray">Showing {visibleStart + 1}-{visibleEnd} of {rows.length} rows</Text>
+          <Text></Text>
+        </>
+      )}
+
+      {rows.slice(visibleStart, visibleEnd).map((current, localIndex) => {
+        const isSelected = visibleStart + localIndex === selectedIndex;
+        if (current.type === 'file') {
+          return (
+            <Text key={`file-${current.file}`} color={isSelected ? 'blue' : 'white'}>
+              {isSelected ? '❯ ' : '  '}    📄 {current.file}
+            </Text>
+          );
+        }
+
+        const group = groups[current.group];
+        if (editingGroup === current.group) {
+          return (
+            <Box key={`group-${current.group}`}>
+              <Text color="blue">❯ {current.group + 1}. </Text>
+              <TextInput value={editValue} onChange={setEditValue} onSubmit={handleEditSubmit} />
+            </Box>
+          );
+        }
+
+        const issues = group.message ? validateCommitMessage(group.message, convention) : [];
+        return (
+          <Text key={`group-${current.group}`} color={isSelected ? 'blue' : 'yellow'} bold>
+            {isSelected ? '❯ ' : '  '}{current.group + 1}. {group.message || '(no message)'}
+            {issues.length > 0 && <Text color="red"> ⚠️  {issues.length} issue{issues.length !== 1 ? 's' : ''}</Text>}
+          </Text>
+        );
+      })}
+
+      <Text></Text>
+      {row?.type === 'group' && groups[row.group]?.message && (() => {
+        const issues = validateCommitMessage(groups[row.group].message, convention);
+        return issues.map((issue, index) => <Text key={index} color="yellow">• {issue}</Text>);
+      })()}
+      {notice && <Text color="red">{notice}</Text>}
+    </Box>
+  );
+};
+
+export const PlanFlow: React.FC<PlanFlowProps> = ({ onExit }) => {
+  const [stage, setStage] = useState<'checking' | 'no-changes' | 'generating' | 'editing' | 'executing' | 'done' | 'error'>('checking');
+  const [error, setError] = useState<string>('');
+  const [errorHint, setErrorHint] = useState('');
+  const [groups, setGroups] = useState<CommitGroup[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [progress, setProgress] = useState<PlanProgress | null>(null);
+  const [committed, setCommitted] = useState<CommitGroup[]>([]);
+
+  useEffect(() => {
+    createPlan();
+  }, []);
+
+  const createPlan = async () => {
+    try {
+      const isRepo = await git.isGitRepository();
+      if (!isRepo) {
+        setError('Not a git repository');
+        setStage('error');
+        return;
+      }
+
+      const hasChanges = await git.hasChanges();
+      if (!hasChanges) {
+        setStage('no-changes');
+        return;
+      }
+
+      setStage('generating');
+      const diff = await collectWorkingTreeDiff();
+      const result = await ai.generateCommitPlan(diff);
+      setGroups(result.groups);
+      setWarnings(result.warnings);
+      setStage('editing');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate commit plan');
+      setErrorHint(err instanceof ApiError ? err.suggestion : '');
+      setStage('error');
+    }
+  };
+
+  const handleExecute = async (plan: CommitGroup[]) => {
+    setStage('executing');
+    try {
+      const result = await executePlan(plan, setProgress);
+      setCommitted(result);
+      setStage('done');
+      setTimeout(onExit, 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to execute commit plan');
+      setStage('error');
+    }
+  };
+
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan" bold>🚀 One-Commit</Text>
+      <Text></Text>
+
+      {stage === 'checking' && (
+        <Text>
+          <Spinner type="dots" /> Checking repository...
+        </Text>
+      )}
+
+      {stage === 'no-changes' && (
+        <Text color="yellow">No changes to commit</Text>
+      )}
+
+      {stage === 'generating' && (
+        <Text>
+          <Spinner type="dots" /> Grouping changes into commits...
+        </Text>
+      )}
+
+      {stage === 'editing' && (
+        <>
+          {warnings.length > 0 && (
+            <>
+              <Text color="yellow" bold>⚠️  Warnings:</Text>
+              {warnings.map((warning, index) => (
+                <Text key={index} color="yellow">• {warning}</Text>
+              ))}
+              <Text></Text>
+            </>
+          )}
+          <PlanEditor initialGroups={groups} onExecute={handleExecute} onCancel={onExit} />
+        </>
+      )}
+
+      {stage === 'executing' && (
+        <Text>
+          <Spinner type="dots" /> Committing {progress ? `${progress.index + 1}/${progress.total}: ${progress.message.split('\n')[0]}` : '...'}
+        </Text>
+      )}
+
+      {stage === 'done' && (
+        <>
+          <Text color="green">✅ Successfully created {committed.length} commit{committed.length !== 1 ? 's' : ''}!</Text>
+          <Text></Text>
+          {committed.map((group, index) => (
+            <Text key={index} color="gray">
+              {index + 1}. {group.message.split('\n')[0]} ({group.files.length} file{group.files.length !== 1 ? 's' : ''})
+            </Text>
+          ))}
+        </>
+      )}
+
+      {stage === 'error' && (
+        <>
+          <Text color="red">❌ Error: {error}</Text>
+          {errorHint && <Text color="gray">💡 {errorHint}</Text>}
+        </>
+      )}
+    </Box>
+  );
+};
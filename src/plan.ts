@@ -0,0 +1,70 @@
+import * as git from './git.js';
+import { CommitGroup, GitDiff } from './types.js';
+
+export interface PlanProgress {
+  index: number;
+  total: number;
+  message: string;
+}
+
+// Builds one diff over every change in the working tree without disturbing what the user has staged
+export async function collectWorkingTreeDiff(): Promise<GitDiff> {
+  const savedIndex = await git.saveIndex();
+  try {
+    await git.stageAllChanges();
+    const diff = await git.getStagedChanges();
+    return { ...diff, files: await git.getStagedPaths() };
+  } finally {
+    await git.restoreIndex(savedIndex);
+  }
+}
+
+export function moveFile(groups: CommitGroup[], file: string, targetIndex: number): CommitGroup[] {
+  const next = groups.map(group => ({ ...group, files: group.files.filter(f => f !== file) }));
+  while (next.length <= targetIndex) {
+    next.push({ message: '', files: [] });
+  }
+  next[targetIndex].files.push(file);
+  return next;
+}
+
+export function moveGroup(groups: CommitGroup[], index: number, offset: number): CommitGroup[] {
+  const target = index + offset;
+  if (target < 0 || target >= groups.length) return groups;
+  const next = [...groups];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+// Commits each group in order. On any failure HEAD and the index are put back exactly as they were.
+export async function executePlan(
+  groups: CommitGroup[],
+  onProgress?: (progress: PlanProgress) => void
+): Promise<CommitGroup[]> {
+  const steps = groups.filter(group => group.files.length > 0);
+  if (steps.some(group => !group.message.trim())) {
+    throw new Error('Every commit in the plan needs a message');
+  }
+
+  const originalHead = await git.getHeadCommit();
+  const originalIndex = await git.saveIndex();
+
+  try {
+    await git.resetStagedFiles();
+    for (const [index, group] of steps.entries()) {
+      onProgress?.({ index, total: steps.length, message: group.message });
+      await git.stageFiles(group.files);
+      await git.commit(group.message);
+    }
+    return steps;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    try {
+      await git.resetHeadTo(originalHead);
+      await git.restoreIndex(originalIndex);
+    } catch (rollbackError) {
+      throw new Error(`${reason}\nRollback failed: ${rollbackError instanceof Error ? rollbackError.message : rollbackError}`);
+    }
+    throw new Error(`${reason}\nPlan rolled back, repository is unchanged`);
+  }
+}
@@ -0,0 +1,153 @@
+import chalk from 'chalk';
+import { readFileSync, writeFileSync, existsSync, realpathSync } from 'fs';
+import { join, resolve, relative, isAbsolute } from 'path';
+import * as git from './git.js';
+import * as ai from './ai.js';
+import { getConfig, hasValidConfig } from './config.js';
+import { ExitCode } from './headless.js';
+import { SensitiveContentError } from './secrets.js';
+import { ApiError } from './providers.js';
+import { describeUsage } from './usage.js';
+
+export interface PullRequestOptions {
+  base?: string;
+  output?: string;
+}
+
+// Where GitHub looks for a pull request template, in the same order
+const TEMPLATE_FILES = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+];
+
+// Status output goes to stderr so stdout only ever carries the pull request
+const log = (message: string) => {
+  process.stderr.write(message + '\n');
+};
+
+export async function detectBaseBranch(): Promise<string> {
+  const branch = await git.getCurrentBranch();
+  const upstream = await git.getUpstreamBranch();
+
+  // A branch created with `git checkout -b feature origin/main` tracks its base directly
+  if (upstream && upstream.split('/').slice(1).join('/') !== branch) {
+    return upstream;
+  }
+
+  const remote = upstream ? upstream.split('/')[0] : 'origin';
+  const remoteDefault = await git.getRemoteDefaultBranch(remote);
+  if (remoteDefault) {
+    return remoteDefault;
+  }
+
+  for (const candidate of ['main', 'master', `${remote}/main`, `${remote}/master`]) {
+    if (candidate !== branch && await git.refExists(candidate)) {
+      return candidate;
+    }
+  }
+
+  throw new Error('Could not detect the base branch, pass it with --base');
+}
+
+// The template goes into the prompt, so it must be a file of the repository: a checked-in config or a
+// symlink must not be able to send ~/.ssh or other files outside it to the model
+const isInsideRepository = (root: string, filePath: string): boolean => {
+  const path = relative(realpathSync(root), realpathSync(filePath));
+  return path !== '' && !path.startsWith('..') && !isAbsolute(path);
+};
+
+export function loadPullRequestTemplate(root: string, warnings: string[]): string | null {
+  const configured = getConfig().prTemplate;
+  if (configured) {
+    const filePath = resolve(root, configured);
+    if (!existsSync(filePath)) {
+      warnings.push(`Pull request template ${configured} not found, using the default sections`);
+      return null;
+    }
+    if (!isInsideRepository(root, filePath)) {
+      warnings.push(`Pull request template ${configured} is outside the repository, using the default sections`);
+      return null;
+    }
+    return readFileSync(filePath, 'utf-8').trim();
+  }
+
+  for (const filename of TEMPLATE_FILES) {
+    const filePath = join(root, filename);
+    if (existsSync(filePath) && isInsideRepository(root, filePath)) {
+      return readFileSync(filePath, 'utf-8').trim();
+    }
+  }
+  return null;
+}
+
+export async function runPullRequest(options: PullRequestOptions): Promise<number> {
+  const isRepo = await git.isGitRepository();
+  if (!isRepo) {
+    log(chalk.red('❌ Error: Not a git repository'));
+    return ExitCode.ERROR;
+  }
+
+  if (!hasValidConfig()) {
+    log(chalk.red('❌ Error: AI provider not configured. Please run with --config to set it up.'));
+    return ExitCode.ERROR;
+  }
+
+  let base: string;
+  try {
+    base = options.base || await detectBaseBranch();
+    if (!await git.refExists(base)) {
+      throw new Error(`Base branch ${base} does not exist`);
+    }
+  } catch (err) {
+    log(chalk.red(`❌ Error: ${err instanceof Error ? err.message : err}`));
+    return ExitCode.ERROR;
+  }
+
+  const commits = await git.listCommits(`${base}..HEAD`);
+  if (commits.length === 0) {
+    log(chalk.yellow(`No commits between ${base} and HEAD`));
+    return ExitCode.NO_CHANGES;
+  }
+
+  const diff = await git.getBranchChanges(base);
+  const warnings: string[] = [];
+  const template = loadPullRequestTemplate(await git.getRepoRoot(), warnings);
+
+  log(chalk.gray(`Describing ${commits.length} commit${commits.length !== 1 ? 's' : ''} against ${base} (${diff.files.length} files, +${diff.additions} -${diff.deletions})...`));
+
+  let pullRequest: ai.PullRequest;
+  try {
+    const result = await ai.generatePullRequest(diff, commits, template, {
+      onRetry: notice => log(chalk.yellow(`↻ ${notice}`)),
+    });
+    pullRequest = result;
+    warnings.push(...result.warnings);
+    log(chalk.gray(`💰 ${describeUsage(result.usage)}`));
+  } catch (err) {
+    log(chalk.red(`❌ Error: ${err instanceof Error ? err.message : 'Failed to generate pull request description'}`));
+    if (err instanceof ApiError && err.suggestion) {
+      log(chalk.gray(`💡 ${err.suggestion}`));
+    }
+    return err instanceof SensitiveContentError ? ExitCode.SENSITIVE_CONTENT : ExitCode.API_FAILURE;
+  }
+  warnings.forEach(warning => log(chalk.yellow(`⚠️  ${warning}`)));
+
+  // Same shape as a commit message: title, blank line, body
+  const output = `${pullRequest.title}\n\n${pullRequest.description}\n`;
+  if (options.output) {
+    try {
+      writeFileSync(options.output, output);
+    } catch (err) {
+      log(chalk.red(`❌ Error: Failed to write ${options.output}: ${err instanceof Error ? err.message : err}`));
+      return ExitCode.ERROR;
+    }
+    log(chalk.green(`✅ Pull request written to ${options.output}`));
+  } else {
+    process.stdout.write(output);
+  }
+  return ExitCode.SUCCESS;
+}
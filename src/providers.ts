@@ -0,0 +1,704 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { Config, ProviderName, FallbackTarget } from './types.js';
+import { ModelLimits, getModelLimits, fitsContextWindow } from './tokens.js';
+
+export interface ChatRequest {
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  // Number of alternative completions, only sent to providers that support it
+  n?: number;
+  // Window the prompt was budgeted for, only sent to providers that otherwise use a smaller default
+  contextWindow?: number;
+  signal?: AbortSignal;
+  // Receives the text generated so far; when set the completion is streamed
+  onProgress?: (text: string) => void;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  choices?: string[];
+  // As counted by the provider, missing when it doesn't report usage
+  usage?: TokenUsage;
+  // Label of the fallback that answered, missing when the configured model did
+  fallback?: string;
+}
+
+// One successful request, as reported to ProviderEvents.onUsage
+export interface CompletedCall {
+  provider: ProviderName;
+  model: string;
+  durationMs: number;
+  request: ChatRequest;
+  response: ChatResponse;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  label: string;
+  supportsChoices?: boolean;
+  complete(request: ChatRequest): Promise<ChatResponse>;
+}
+
+// Carries the HTTP status so callers can tell auth, quota and server failures apart
+export class ProviderError extends Error {
+  status?: number;
+  // Seconds the server asked us to wait before trying again
+  retryAfter?: number;
+
+  constructor(message: string, status?: number, retryAfter?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export type ApiErrorKind = 'auth' | 'quota' | 'rate-limit' | 'context-length' | 'server' | 'network' | 'timeout' | 'unknown';
+
+const ERROR_DESCRIPTIONS: Record<ApiErrorKind, { summary: string; suggestion: string }> = {
+  'auth': {
+    summary: 'the API key was rejected',
+    suggestion: 'Check which API key is used with `one-commit config --explain`, and update it with `one-commit --config`.',
+  },
+  'quota': {
+    summary: 'the account is out of quota or credit',
+    suggestion: 'Check the billing settings of your provider, or add a cheaper model to "fallbacks".',
+  },
+  'rate-limit': {
+    summary: 'too many requests',
+    suggestion: 'Wait a minute and try again, raise "maxRetries", or add another model to "fallbacks".',
+  },
+  'context-length': {
+    summary: 'the prompt is longer than the model accepts',
+    suggestion: 'Stage fewer files, list generated files in .onecommitignore, or pass a smaller --context-window.',
+  },
+  'server': {
+    summary: 'the service is unavailable',
+    suggestion: 'Try again later, or add another model or endpoint to "fallbacks".',
+  },
+  'network': {
+    summary: 'could not connect',
+    suggestion: 'Check your network connection and the base URL shown by `one-commit config --explain`.',
+  },
+  'timeout': {
+    summary: 'the request timed out',
+    suggestion: 'Try again, or allow more time with --timeout.',
+  },
+  'unknown': { summary: '', suggestion: '' },
+};
+
+const CONTEXT_LENGTH_ERROR = /context[_ ]length|context window|maximum context|prompt is too long|too many (?:input )?tokens|input is too long|reduce the length/i;
+
+// Keeps the provider's own message and adds what it means for the user and what to do about it
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  suggestion: string;
+
+  constructor(label: string, error: unknown, context = '') {
+    const kind = classifyError(error);
+    const detail = error instanceof Error ? error.message : String(error);
+    const { summary, suggestion } = ERROR_DESCRIPTIONS[kind];
+    super(`${label} API error${context}: ${summary ? `${summary} (${detail})` : detail}`);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.suggestion = suggestion;
+  }
+}
+
+export function classifyError(error: unknown): ApiErrorKind {
+  if (error instanceof ApiError) return error.kind;
+  const status = error instanceof ProviderError ? error.status : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (status === 413 || CONTEXT_LENGTH_ERROR.test(message)) return 'context-length';
+  // OpenAI reports an empty balance as a 429, it must not be retried like a rate limit
+  if (/insufficient_quota|exceeded your current quota|credit balance|billing/i.test(message)) return 'quota';
+  if (status === 401 || status === 403 || /invalid[ _]api[ _]key|incorrect api key|authentication/i.test(message)) return 'auth';
+  if (status === 429) return 'rate-limit';
+  if (status !== undefined && status >= 500) return 'server';
+  if (/timed out/i.test(message)) return 'timeout';
+  if (/connection error|fetch failed|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN/i.test(message)) return 'network';
+  return 'unknown';
+}
+
+// Thrown when the caller aborted the request, which is not a failure worth reporting
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export const DEFAULT_TIMEOUT_SECONDS = 120;
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+// Retries wait 1s, 2s, 4s, ... and never longer than a server-requested Retry-After of up to a minute
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+const RETRYABLE_ERRORS: ApiErrorKind[] = ['rate-limit', 'server'];
+
+// Called while a request is retried or falls back to the next model, with a line the user can read
+export interface ProviderEvents {
+  onRetry?: (notice: string) => void;
+  onFallback?: (notice: string) => void;
+  onUsage?: (call: CompletedCall) => void;
+}
+
+export interface ProviderField {
+  key: keyof Config;
+  label: string;
+  placeholder?: string;
+  defaultValue?: string;
+  secret?: boolean;
+  required?: boolean;
+}
+
+export interface ProviderInfo {
+  label: string;
+  defaultModel: string;
+  fields: ProviderField[];
+}
+
+export const PROVIDERS: Record<ProviderName, ProviderInfo> = {
+  openai: {
+    label: 'OpenAI-compatible',
+    defaultModel: 'gpt-4o-mini',
+    fields: [
+      { key: 'apiKey', label: 'API Key', placeholder: 'sk-...', secret: true, required: true },
+      { key: 'baseUrl', label: 'Base URL', defaultValue: 'https://api.openai.com/v1' },
+    ],
+  },
+  anthropic: {
+    label: 'Anthropic',
+    defaultModel: 'claude-3-5-haiku-latest',
+    fields: [
+      { key: 'anthropicApiKey', label: 'API Key', placeholder: 'sk-ant-...', secret: true, required: true },
+      { key: 'anthropicBaseUrl', label: 'Base URL', defaultValue: 'https://api.anthropic.com' },
+    ],
+  },
+  ollama: {
+    label: 'Ollama',
+    defaultModel: 'llama3.1',
+    fields: [
+      { key: 'ollamaBaseUrl', label: 'Base URL', defaultValue: 'http://localhost:11434' },
+    ],
+  },
+  azure: {
+    label: 'Azure OpenAI',
+    defaultModel: 'gpt-4o-mini',
+    fields: [
+      { key: 'azureApiKey', label: 'API Key', secret: true, required: true },
+      { key: 'azureEndpoint', label: 'Endpoint', placeholder: 'https://my-resource.openai.azure.com', required: true },
+      { key: 'azureDeployment', label: 'Deployment', required: true },
+      { key: 'azureApiVersion', label: 'API Version', defaultValue: '2024-06-01' },
+    ],
+  },
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as ProviderName[];
+
+export function getProviderInfo(config: Config): ProviderInfo {
+  return PROVIDERS[config.provider || 'openai'];
+}
+
+export function getFieldValue(config: Config, field: ProviderField): string | undefined {
+  return (config[field.key] as string | undefined) || field.defaultValue;
+}
+
+export function getMissingFields(config: Config): ProviderField[] {
+  return getProviderInfo(config).fields.filter(field => field.required && !getFieldValue(config, field));
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+};
+
+async function post(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ProviderError(`Connection error: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new ProviderError(`${response.status} ${text || response.statusText}`, response.status, parseRetryAfter(response.headers.get('retry-after')));
+  }
+  return response;
+}
+
+async function postJson<T>(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await post(url, headers, body, signal);
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new ProviderError(`Invalid JSON response: ${text.slice(0, 200)}`, response.status);
+  }
+}
+
+// Calls onLine for every complete line of a streamed response body
+async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+    lines.map(line => line.trim()).filter(Boolean).forEach(onLine);
+    if (done) return;
+  }
+}
+
+const toUsage = (usage: { prompt_tokens: number; completion_tokens: number } | null | undefined): TokenUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+
+// streamUsage asks for token counts at the end of a stream, which older Azure API versions reject
+async function completeWithOpenAIClient(client: OpenAI, model: string, request: ChatRequest, streamUsage: boolean): Promise<ChatResponse> {
+  const params = {
+    model,
+    messages: [
+      { role: 'system' as const, content: request.system },
+      { role: 'user' as const, content: request.prompt },
+    ],
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+  };
+
+  try {
+    if (request.onProgress) {
+      const stream = await client.chat.completions.create({
+        ...params,
+        stream: true,
+        ...(streamUsage ? { stream_options: { include_usage: true } } : {}),
+      }, { signal: request.signal });
+      let content = '';
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          request.onProgress(content);
+        }
+        // The last chunk carries the usage and no choices
+        usage = toUsage(chunk.usage) ?? usage;
+      }
+      // The SDK ends the stream quietly on abort instead of throwing
+      if (request.signal?.aborted) {
+        throw new Error('Request aborted');
+      }
+      return { content: content.trim(), usage };
+    }
+
+    const completion = await client.chat.completions.create({
+      ...params,
+      ...(request.n && request.n > 1 ? { n: request.n } : {}),
+    }, { signal: request.signal });
+    const choices = completion.choices.map(choice => choice.message?.content?.trim() || '');
+    return { content: choices[0] || '', choices, usage: toUsage(completion.usage) };
+  } catch (error) {
+    if (error instanceof OpenAI.APIError) {
+      throw new ProviderError(error.message, error.status, parseRetryAfter(error.headers?.['retry-after']));
+    }
+    throw error;
+  }
+}
+
+function createOpenAIProvider(config: Config): LLMProvider {
+  // Retries are handled for every provider alike in withRetries
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseUrl || 'https://api.openai.com/v1',
+    maxRetries: 0,
+  });
+
+  return {
+    name: 'openai',
+    label: 'OpenAI',
+    supportsChoices: true,
+    complete: request => completeWithOpenAIClient(client, config.model || PROVIDERS.openai.defaultModel, request, true),
+  };
+}
+
+function createAzureProvider(config: Config): LLMProvider {
+  const client = new AzureOpenAI({
+    apiKey: config.azureApiKey,
+    endpoint: config.azureEndpoint,
+    deployment: config.azureDeployment,
+    apiVersion: config.azureApiVersion || '2024-06-01',
+    maxRetries: 0,
+  });
+
+  return {
+    name: 'azure',
+    label: 'Azure OpenAI',
+    supportsChoices: true,
+    // Azure routes by deployment; the model field is only sent because the API requires it
+    complete: request => completeWithOpenAIClient(client, config.azureDeployment || config.model || '', request, false),
+  };
+}
+
+function createAnthropicProvider(config: Config): LLMProvider {
+  const baseUrl = trimSlash(config.anthropicBaseUrl || 'https://api.anthropic.com');
+
+  return {
+    name: 'anthropic',
+    label: 'Anthropic',
+    complete: async request => {
+      const url = `${baseUrl}/v1/messages`;
+      const headers = {
+        'x-api-key': config.anthropicApiKey || '',
+        'anthropic-version': '2023-06-01',
+      };
+      const body = {
+        model: config.model || PROVIDERS.anthropic.defaultModel,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      };
+
+      if (request.onProgress) {
+        const response = await post(url, headers, { ...body, stream: true }, request.signal);
+        let content = '';
+        const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+        // Server-sent events: the text arrives in content_block_delta events, the token counts
+        // in message_start and message_delta
+        await readLines(response, line => {
+          if (!line.startsWith('data:')) return;
+          const event = JSON.parse(line.slice('data:'.length));
+          if (event.type === 'error') {
+            throw new ProviderError(event.error?.message || 'Stream error');
+          }
+          if (event.type === 'message_start') {
+            usage.promptTokens = event.message?.usage?.input_tokens ?? 0;
+          }
+          if (event.type === 'message_delta') {
+            usage.completionTokens = event.usage?.output_tokens ?? 0;
+          }
+          if (event.type === 'content_block_delta' && event.delta?.text) {
+            content += event.delta.text;
+            request.onProgress?.(content);
+          }
+        });
+        return { content: content.trim(), usage: usage.promptTokens ? usage : undefined };
+      }
+
+      const data = await postJson<{ content?: { type: string; text?: string }[]; usage?: { input_tokens: number; output_tokens: number } }>(url, headers, body, request.signal);
+      const content = (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+      const usage = data.usage ? { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens } : undefined;
+      return { content: content.trim(), usage };
+    },
+  };
+}
+
+interface OllamaCounts {
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+const toOllamaUsage = (data: OllamaCounts): TokenUsage | undefined =>
+  data.done && data.eval_count !== undefined ? { promptTokens: data.prompt_eval_count ?? 0, completionTokens: data.eval_count } : undefined;
+
+function createOllamaProvider(config: Config): LLMProvider {
+  const baseUrl = trimSlash(config.ollamaBaseUrl || 'http://localhost:11434');
+
+  return {
+    name: 'ollama',
+    label: 'Ollama',
+    complete: async request => {
+      const url = `${baseUrl}/api/chat`;
+      const body = {
+        model: config.model || PROVIDERS.ollama.defaultModel,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        stream: !!request.onProgress,
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+          ...(request.contextWindow ? { num_ctx: request.contextWindow } : {}),
+        },
+      };
+
+      if (request.onProgress) {
+        const response = await post(url, {}, body, request.signal);
+        let content = '';
+        let usage: TokenUsage | undefined;
+        // Newline-delimited JSON, one object per generated chunk, the last one with the token counts
+        await readLines(response, line => {
+          const chunk = JSON.parse(line);
+          if (chunk.error) {
+            throw new ProviderError(chunk.error);
+          }
+          if (chunk.message?.content) {
+            content += chunk.message.content;
+            request.onProgress?.(content);
+          }
+          usage = toOllamaUsage(chunk) ?? usage;
+        });
+        return { content: content.trim(), usage };
+      }
+
+      const data = await postJson<OllamaCounts & { message?: { content?: string } }>(url, {}, body, request.signal);
+      return { content: data.message?.content?.trim() || '', usage: toOllamaUsage(data) };
+    },
+  };
+}
+
+function createBaseProvider(config: Config): LLMProvider {
+  switch (config.provider || 'openai') {
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'ollama':
+      return createOllamaProvider(config);
+    case 'azure':
+      return createAzureProvider(config);
+    default:
+      return createOpenAIProvider(config);
+  }
+}
+
+// Every request gets the configured timeout on top of the caller's own abort signal. A streamed answer can take
+// longer than that as a whole, so its timer starts over whenever text arrives and only a stalled stream is given up on.
+function withTimeout(provider: LLMProvider, timeoutSeconds: number): LLMProvider {
+  return {
+    ...provider,
+    complete: async request => {
+      const controller = new AbortController();
+      let timedOut = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const startTimer = () => {
+        clearTimeout(timer);
+        if (timeoutSeconds > 0) {
+          timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutSeconds * 1000);
+        }
+      };
+      const onAbort = () => controller.abort();
+      request.signal?.addEventListener('abort', onAbort);
+      if (request.signal?.aborted) controller.abort();
+      startTimer();
+
+      const onProgress = request.onProgress && ((text: string) => {
+        startTimer();
+        request.onProgress!(text);
+      });
+
+      try {
+        return await provider.complete({ ...request, signal: controller.signal, onProgress });
+      } catch (error) {
+        if (timedOut) {
+          throw new ProviderError(onProgress ? `Request timed out, nothing received for ${timeoutSeconds}s` : `Request timed out after ${timeoutSeconds}s`);
+        }
+        if (request.signal?.aborted) {
+          throw new RequestCancelledError();
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new RequestCancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new RequestCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Rate limits and server errors are often gone a moment later, everything else fails the same way again
+function withRetries(provider: LLMProvider, maxRetries: number, events: ProviderEvents): LLMProvider {
+  return {
+    ...provider,
+    complete: async request => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await provider.complete(request);
+        } catch (error) {
+          const kind = classifyError(error);
+          const retryAfter = error instanceof ProviderError && error.retryAfter !== undefined ? error.retryAfter * 1000 : undefined;
+          if (attempt > maxRetries || !RETRYABLE_ERRORS.includes(kind) || (retryAfter ?? 0) > MAX_RETRY_DELAY_MS) {
+            throw error;
+          }
+          // Some jitter, so parallel requests that failed together don't retry together
+          const delay = retryAfter ?? RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+          events.onRetry?.(`${provider.label}: ${ERROR_DESCRIPTIONS[kind].summary}, retrying in ${Math.max(1, Math.round(delay / 1000))}s (${attempt}/${maxRetries})`);
+          await sleep(delay, request.signal);
+        }
+      }
+    },
+  };
+}
+
+// Azure routes by deployment name, which is also what its pricing is configured under
+const getTargetModel = (config: Config): string => {
+  const provider = config.provider || 'openai';
+  return (provider === 'azure' ? config.azureDeployment : config.model) || PROVIDERS[provider].defaultModel;
+};
+
+const describeTarget = (config: Config) => `${getProviderInfo(config).label} ${getTargetModel(config)}`;
+
+// A fallback names a model of the same provider, or settings that replace the provider, model and endpoint.
+// Credentials always come from the main configuration.
+export function getFallbackConfigs(config: Config): Config[] {
+  return (config.fallbacks || []).map((target: FallbackTarget) => {
+    // A configured context window describes the primary model
+    if (typeof target === 'string') {
+      return { ...config, model: target, contextWindow: undefined };
+    }
+    // The primary model rarely exists on another provider
+    const switchesProvider = target.provider !== undefined && target.provider !== (config.provider || 'openai');
+    return { ...config, contextWindow: undefined, ...(switchesProvider ? { model: undefined } : {}), ...target };
+  });
+}
+
+// The prompt was sized for the primary model: a fallback gets its own window and response size,
+// or null when the prompt doesn't fit its window at all
+function fitRequest(request: ChatRequest, limits: ModelLimits): ChatRequest | null {
+  const maxTokens = Math.min(request.maxTokens, limits.outputTokens);
+  if (!fitsContextWindow({ ...limits, outputTokens: maxTokens }, [request.system, request.prompt])) {
+    return null;
+  }
+  return { ...request, maxTokens, ...(request.contextWindow !== undefined ? { contextWindow: limits.contextWindow } : {}) };
+}
+
+// Tries the next model whenever one fails for good; a prompt that is too long is left to the caller to shorten
+function withFallbacks(chain: { provider: LLMProvider; label: string; limits: ModelLimits }[], events: ProviderEvents): LLMProvider {
+  // Parallel requests tend to fail the same way, each fallback is reported once
+  const reported = new Set<string>();
+  const report = (notice: string) => {
+    if (!reported.has(notice)) {
+      reported.add(notice);
+      events.onFallback?.(notice);
+    }
+  };
+  return {
+    ...chain[0].provider,
+    complete: async request => {
+      let lastError: unknown;
+      for (let index = 0; index < chain.length; index++) {
+        const { provider, label, limits } = chain[index];
+        const fitted = index === 0 ? request : fitRequest(request, limits);
+        if (!fitted) {
+          report(`${label} skipped, the prompt doesn't fit its ${limits.contextWindow.toLocaleString('en-US')}-token context window`);
+          continue;
+        }
+        try {
+          const response = await provider.complete(fitted);
+          return index === 0 ? response : { ...response, fallback: label };
+        } catch (error) {
+          const kind = classifyError(error);
+          if (index === chain.length - 1 || error instanceof RequestCancelledError || kind === 'context-length') {
+            throw error;
+          }
+          const reason = ERROR_DESCRIPTIONS[kind].summary || (error instanceof Error ? error.message : String(error));
+          report(`${label} failed (${reason}), falling back to ${chain[index + 1].label}`);
+          lastError = error;
+        }
+      }
+      // Every fallback after the last failure was skipped
+      throw lastError;
+    },
+  };
+}
+
+// Reports every successful request with the model that answered it and how long it took
+function withUsageReport(provider: LLMProvider, config: Config, events: ProviderEvents): LLMProvider {
+  if (!events.onUsage) return provider;
+  const model = getTargetModel(config);
+  return {
+    ...provider,
+    complete: async request => {
+      const started = Date.now();
+      const response = await provider.complete(request);
+      events.onUsage?.({ provider: provider.name, model, durationMs: Date.now() - started, request, response });
+      return response;
+    },
+  };
+}
+
+export function createProvider(config: Config, events: ProviderEvents = {}): LLMProvider {
+  const chain = [config, ...getFallbackConfigs(config)].map(target => ({
+    label: describeTarget(target),
+    limits: getModelLimits(target),
+    provider: withRetries(
+      withTimeout(withUsageReport(createBaseProvider(target), target, events), target.timeout ?? DEFAULT_TIMEOUT_SECONDS),
+      target.maxRetries ?? DEFAULT_MAX_RETRIES,
+      events
+    ),
+  }));
+  return chain.length > 1 ? withFallbacks(chain, events) : chain[0].provider;
+}
+
+// The candidates, and the label of the fallback that answered when the configured model didn't
+export async function completeCandidates(provider: LLMProvider, request: ChatRequest, count: number): Promise<{ choices: string[]; fallback?: string }> {
+  if (count <= 1) {
+    const { content, fallback } = await provider.complete(request);
+    return { choices: [content], fallback };
+  }
+
+  if (provider.supportsChoices) {
+    const response = await provider.complete({ ...request, n: count });
+    // Some OpenAI-compatible servers silently ignore `n`, top up with extra requests below
+    const choices = (response.choices || [response.content]).filter(Boolean);
+    if (choices.length >= count) {
+      return { choices: choices.slice(0, count), fallback: response.fallback };
+    }
+    const rest = await completeCandidates({ ...provider, supportsChoices: false }, request, count - choices.length);
+    return { choices: [...choices, ...rest.choices], fallback: response.fallback ?? rest.fallback };
+  }
+
+  // One request per candidate, spreading the temperature so they do not all come out the same
+  const responses = await Promise.all(
+    Array.from({ length: count }, (_, index) =>
+      provider.complete({ ...request, temperature: Math.min(1, Math.round((request.temperature + index * 0.2) * 10) / 10) })
+    )
+  );
+  return { choices: responses.map(response => response.content), fallback: responses.find(response => response.fallback)?.fallback };
+}
@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Text, Box, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import * as git from './git.js';
+import * as ai from './ai.js';
+import { getConfig } from './config.js';
+import { resolveConvention } from './conventions.js';
+import { ApiError, RequestCancelledError } from './providers.js';
+import { planReword, applyRewords, RewordPlan } from './reword.js';
+import { getTerminalHeight, getVisibleRange } from './scroll.js';
+import { MessageEditor } from './message-editor.js';
+import { editInExternalEditor } from './editor.js';
+import { recordCorrection } from './corrections.js';
+
+interface RewordFlowProps {
+  range: string;
+  onExit: () => void;
+}
+
+type RowStatus = 'accept' | 'skip';
+
+interface RewordRow {
+  hash: string;
+  oldMessage: string;
+  newMessage: string;
+  // The proposal as the model wrote it and the files it describes, to learn from edits
+  generatedMessage: string;
+  files: string[];
+  status: RowStatus;
+  edited: boolean;
+  violations: string[];
+}
+
+interface RewordTableProps {
+  rows: RewordRow[];
+  onEdit: (index: number) => void;
+  onToggle: (index: number, status: RowStatus) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const subjectOf = (message: string) => message.split('\n')[0];
+
+const fit = (text: string, width: number) =>
+  text.length > width ? text.slice(0, Math.max(0, width - 1)) + '…' : text.padEnd(width);
+
+const RewordTable: React.FC<RewordTableProps> = ({ rows, onEdit, onToggle, onApply, onCancel }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [notice, setNotice] = useState('');
+
+  const terminalHeight = getTerminalHeight();
+  const reservedLines = 16; // Title, help text, header, details of the selected row, spacing
+  const maxVisibleRows = Math.max(3, terminalHeight - reservedLines);
+  const columnWidth = Math.max(20, Math.floor(((process.stdout.columns || 80) - 18) / 2));
+
+  const row = rows[selectedIndex];
+
+  useInput((input, key) => {
+    setNotice('');
+    if (key.upArrow && selectedIndex > 0) {
+      setSelectedIndex(selectedIndex - 1);
+    } else if (key.downArrow && selectedIndex < rows.length - 1) {
+      setSelectedIndex(selectedIndex + 1);
+    } else if (input === 'a') {
+      onToggle(selectedIndex, 'accept');
+    } else if (input === 's') {
+      onToggle(selectedIndex, 'skip');
+    } else if (input === ' ') {
+      onToggle(selectedIndex, row.status === 'accept' ? 'skip' : 'accept');
+    } else if (input === 'e') {
+      onEdit(selectedIndex);
+    } else if (key.return) {
+      if (rows.every(current => current.status === 'skip')) {
+        setNotice("Nothing to reword, accept at least one commit with 'a'");
+      } else {
+        onApply();
+      }
+    } else if (key.escape || key.ctrl && input === 'c') {
+      onCancel();
+    }
+  });
+
+  const { start: visibleStart, end: visibleEnd } = getVisibleRange(selectedIndex, rows.length, maxVisibleRows);
+  const accepted = rows.filter(current => current.status === 'accept').length;
+
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan" bold>Reword {rows.length} commit{rows.length !== 1 ? 's' : ''} ({accepted} accepted):</Text>
+      <Text color="gray">Use ↑/↓ to navigate, 'a' to accept, 's' to skip, space to toggle, 'e' to edit the proposal</Text>
+      <Text color="gray">Press enter to rewrite the accepted commits, ESC to cancel</Text>
+      <Text></Text>
+
+      <Text color="gray" bold>
+        {'    '}{'Commit'.padEnd(8)} {fit('Current message', columnWidth)} Proposed message
+      </Text>
+      {rows.slice(visibleStart, visibleEnd).map((current, localIndex) => {
+        const index = visibleStart + localIndex;
+        const isSelected = index === selectedIndex;
+        const isAccepted = current.status === 'accept';
+        return (
+          <Text key={current.hash} color={isSelected ? 'blue' : undefined} wrap="truncate-end">
+            {isSelected ? '❯ ' : '  '}
+            <Text color={isAccepted ? 'green' : 'gray'}>{isAccepted ? '✓' : '−'}</Text>{' '}
+            <Text color="yellow">{current.hash.slice(0, 8)}</Text>{' '}
+            <Text color="gray">{fit(subjectOf(current.oldMessage), columnWidth)}</Text>{' '}
+            <Text dimColor={!isAccepted}>{subjectOf(current.newMessage)}</Text>
+            {current.edited && <Text color="cyan"> (edited)</Text>}
+            {current.violations.length > 0 && <Text color="red"> ⚠️  {current.violations.length}</Text>}
+          </Text>
+        );
+      })}
+      {rows.length > maxVisibleRows && (
+        <Text color="gray">Showing {visibleStart + 1}-{visibleEnd} of {rows.length} commits</Text>
+      )}
+
+      {row && (
+        <Box marginTop={1}>
+          <Box flexDirection="column" width="50%" paddingRight={1}>
+            <Text color="gray" bold>Current:</Text>
+            <Box borderStyle="single" borderColor="gray" paddingX={1} flexGrow={1}>
+              <Text color="gray">{row.oldMessage || '(empty)'}</Text>
+            </Box>
+          </Box>
+          <Box flexDirection="column" width="50%">
+            <Text color={row.status === 'accept' ? 'green' : 'gray'} bold>Proposed{row.status === 'skip' ? ' (skipped)' : ''}:</Text>
+            <Box borderStyle="single" borderColor={row.status === 'accept' ? 'green' : 'gray'} paddingX={1} flexGrow={1}>
+              <Text>{row.newMessage}</Text>
+            </Box>
+          </Box>
+        </Box>
+      )}
+      {row?.violations.map((issue, index) => (
+        <Text key={index} color="yellow">• {issue}</Text>
+      ))}
+      {notice && <Text color="red">{notice}</Text>}
+    </Box>
+  );
+};
+
+export const RewordFlow: React.FC<RewordFlowProps> = ({ range, onExit }) => {
+  const [stage, setStage] = useState<'checking' | 'no-commits' | 'generating' | 'cancelled' | 'review' | 'editing' | 'external-editor' | 'applying' | 'done' | 'error'>('checking');
+  const [error, setError] = useState<string>('');
+  const [errorHint, setErrorHint] = useState('');
+  const [plan, setPlan] = useState<RewordPlan | null>(null);
+  const [rows, setRows] = useState<RewordRow[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [externalMessage, setExternalMessage] = useState<string>('');
+  const [rewritten, setRewritten] = useState(0);
+  const abortController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    generateProposals();
+  }, []);
+
+  useInput((input, key) => {
+    if (key.escape || key.ctrl && input === 'c') {
+      abortController.current?.abort();
+    }
+  }, { isActive: stage === 'generating' });
+
+  const generateProposals = async () => {
+    try {
+      const isRepo = await git.isGitRepository();
+      if (!isRepo) {
+        setError('Not a git repository');
+        setStage('error');
+        return;
+      }
+
+      const reword = await planReword(range);
+      setPlan(reword);
+      if (reword.commits.length === 0) {
+        setStage('no-commits');
+        return;
+      }
+
+      setStage('generating');
+      const controller = new AbortController();
+      abortController.current = controller;
+      const proposals: RewordRow[] = [];
+      const collectedWarnings = new Set<string>();
+
+      // One request at a time, every commit is described from its own diff only
+      for (const commit of reword.commits) {
+        setProgress(proposals.length);
+        const diff = await git.getCommitChanges(commit.hash);
+        const result = await ai.generateCommitMessage(diff, { signal: controller.signal });
+        result.warnings.forEach(warning => collectedWarnings.add(warning));
+        proposals.push({
+          hash: commit.hash,
+          oldMessage: commit.message,
+          newMessage: result.message,
+          generatedMessage: result.message,
+          files: diff.files,
+          status: 'accept',
+          edited: false,
+          violations: result.violations,
+        });
+      }
+
+      setRows(proposals);
+      setWarnings(Array.from(collectedWarnings));
+      setStage('review');
+    } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        setStage('cancelled');
+        setTimeout(onExit, 500);
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Failed to generate commit messages');
+      setErrorHint(err instanceof ApiError ? err.suggestion : '');
+      setStage('error');
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<RewordRow>) => {
+    setRows(rows.map((row, current) => current === index ? { ...row, ...changes } : row));
+  };
+
+  const handleEdit = (index: number) => {
+    setEditingIndex(index);
+    setStage('editing');
+  };
+
+  const handleEditedMessage = async (message: string) => {
+    if (editingIndex !== null) {
+      updateRow(editingIndex, {
+        newMessage: message,
+        status: 'accept',
+        edited: true,
+        violations: await ai.checkCommitMessage(message),
+      });
+    }
+    setEditingIndex(null);
+    setStage('review');
+  };
+
+  const openExternalEditor = (message: string) => {
+    setExternalMessage(message);
+    setStage('external-editor');
+  };
+
+  useEffect(() => {
+    if (stage !== 'external-editor' || editingIndex === null) return;
+    editInExternalEditor(externalMessage)
+      // Emptying the file keeps the text that was handed over, inline edits made before Ctrl+O included
+      .then(edited => handleEditedMessage(edited ?? externalMessage))
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to open editor');
+        setStage('error');
+      });
+  }, [stage]);
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setStage('applying');
+    try {
+      const messages = new Map(
+        rows.filter(row => row.status === 'accept').map(row => [row.hash, row.newMessage] as [string, string])
+      );
+      setRewritten(await applyRewords(plan, messages));
+      const root = await git.getRepoRoot();
+      const convention = resolveConvention(getConfig().convention);
+      rows
+        .filter(row => row.status === 'accept' && row.edited)
+        .forEach(row => recordCorrection(root, convention, { files: row.files, generated: row.generatedMessage, final: row.newMessage }));
+      setStage('done');
+      setTimeout(onExit, 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reword commits');
+      setStage('error');
+    }
+  };
+
+  return (
+    <Box flexDirection="column">
+      <Text color="cyan" bold>🚀 One-Commit</Text>
+      <Text></Text>
+
+      {stage === 'checking' && (
+        <Text>
+          <Spinner type="dots" /> Reading commits in {range}...
+        </Text>
+      )}
+
+      {stage === 'no-commits' && (
+        <Text color="yellow">No commits in {range}</Text>
+      )}
+
+      {stage === 'generating' && plan && (
+        <Text>
+          <Spinner type="dots" /> Generating message {Math.min(progress + 1, plan.commits.length)}/{plan.commits.length}
+          {' '}<Text color="yellow">{plan.commits[progress]?.hash.slice(0, 8)}</Text>
+          {' '}<Text color="gray">{subjectOf(plan.commits[progress]?.message || '')} (press ESC to cancel)</Text>
+        </Text>
+      )}
+
+      {stage === 'cancelled' && (
+        <Text color="yellow">Generation cancelled, no commits were changed</Text>
+      )}
+
+      {stage === 'review' && (
+        <>
+          {warnings.length > 0 && (
+            <>
+              <Text color="yellow" bold>⚠️  Warnings:</Text>
+              {warnings.map((warning, index) => (
+                <Text key={index} color="yellow">• {warning}</Text>
+              ))}
+              <Text></Text>
+            </>
+          )}
+          <RewordTable
+            rows={rows}
+            onEdit={handleEdit}
+            onToggle={(index, status) => updateRow(index, { status })}
+            onApply={handleApply}
+            onCancel={onExit}
+          />
+        </>
+      )}
+
+      {stage === 'editing' && editingIndex !== null && (() => {
+        const convention = resolveConvention(getConfig().convention);
+        return (
+          <MessageEditor
+            initialMessage={rows[editingIndex].newMessage}
+            convention={convention}
+            bodyWidth={convention.bodyMaxLineLength}
+            onSubmit={handleEditedMessage}
+            onOpenExternal={openExternalEditor}
+            onCancel={() => setStage('review')}
+          />
+        );
+      })()}
+
+      {stage === 'external-editor' && (
+        <Text color="gray">Waiting for your editor to close...</Text>
+      )}
+
+      {stage === 'applying' && (
+        <Text>
+          <Spinner type="dots" /> Rewriting commits...
+        </Text>
+      )}
+
+      {stage === 'done' && (
+        <Text color="green">✅ Reworded {rewritten} commit{rewritten !== 1 ? 's' : ''}!</Text>
+      )}
+
+      {stage === 'error' && (
+        <>
+          <Text color="red">❌ Error: {error}</Text>
+          {errorHint && <Text color="gray">💡 {errorHint}</Text>}
+        </>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,83 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as git from './git.js';
+
+export interface RewordCommit {
+  hash: string;
+  message: string;
+}
+
+export interface RewordPlan {
+  // Commits the user asked about, oldest first
+  commits: RewordCommit[];
+  // Everything from the oldest of them up to HEAD, which the rebase has to replay
+  replay: string[];
+  upstream: string | null;
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+export async function planReword(range: string): Promise<RewordPlan> {
+  if (await git.hasTrackedChanges()) {
+    throw new Error('Commit or stash your changes before rewording commits');
+  }
+
+  const commits = await git.listCommits(range);
+  if (commits.length === 0) {
+    return { commits, replay: [], upstream: null };
+  }
+
+  const upstream = await git.getParentCommit(commits[0].hash);
+  const replayRange = upstream ? `${upstream}..HEAD` : 'HEAD';
+  const replay = (await git.listCommits(replayRange)).map(commit => commit.hash);
+
+  if (commits.some(commit => !replay.includes(commit.hash))) {
+    throw new Error(`${range} contains commits that are not on the current branch`);
+  }
+  // A plain rebase would flatten merges, so rather refuse than rewrite history the user didn't expect
+  if ((await git.listCommits(replayRange, { merges: true })).length > 0) {
+    throw new Error('Rewording across merge commits is not supported');
+  }
+
+  return { commits, replay, upstream };
+}
+
+// Rewrites the given messages with one non-interactive rebase. On any failure the branch is put back where it was.
+export async function applyRewords(plan: RewordPlan, messages: Map<string, string>): Promise<number> {
+  if (messages.size === 0) return 0;
+
+  const originalHead = await git.getHeadCommit();
+  const branch = await git.getCurrentBranch();
+  const dir = mkdtempSync(join(tmpdir(), 'one-commit-reword-'));
+
+  try {
+    const todo = plan.replay.flatMap((hash, index) => {
+      const message = messages.get(hash);
+      if (message === undefined) return [`pick ${hash}`];
+      const messageFile = join(dir, `message-${index}`);
+      writeFileSync(messageFile, message + '\n');
+      // -F leaves the prepare-commit-msg hook alone, --allow-empty keeps intentionally empty commits, and
+      // --cleanup=whitespace keeps lines starting with "#" such as issue references
+      return [`pick ${hash}`, `exec git commit --amend --allow-empty --no-verify --cleanup=whitespace -q -F ${shellQuote(messageFile)}`];
+    });
+    const todoFile = join(dir, 'todo');
+    writeFileSync(todoFile, todo.join('\n') + '\n');
+
+    await git.rebaseWithTodo(plan.upstream, todoFile);
+    return messages.size;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    try {
+      await git.abortRebase();
+      if (originalHead && await git.getHeadCommit() !== originalHead) {
+        await git.resetHard(originalHead);
+      }
+    } catch (restoreError) {
+      throw new Error(`${reason}\nRestoring ${branch ?? 'HEAD'} failed: ${restoreError instanceof Error ? restoreError.message : restoreError}`);
+    }
+    throw new Error(`${reason}\n${branch ?? 'HEAD'} restored, no commits were changed`);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,21 @@
+// Helper functions for virtual scrolling
+export const getTerminalHeight = (): number => {
+  return process.stdout.rows || 24;
+};
+
+export const getVisibleRange = (selectedIndex: number, totalFiles: number, maxVisible: number) => {
+  if (totalFiles <= maxVisible) {
+    return { start: 0, end: totalFiles };
+  }
+  
+  const halfWindow = Math.floor(maxVisible / 2);
+  let start = Math.max(0, selectedIndex - halfWindow);
+  let end = Math.min(totalFiles, start + maxVisible);
+  
+  // Adjust window to utilize full space
+  if (end - start < maxVisible) {
+    start = Math.max(0, end - maxVisible);
+  }
+  
+  return { start, end };
+};
@@ -0,0 +1,213 @@
+import { basename } from 'path';
+
+export type SecretPolicy = 'redact' | 'block';
+
+export const SECRET_POLICIES: SecretPolicy[] = ['redact', 'block'];
+
+export interface SecretFinding {
+  kind: string;
+  file: string;
+  // Line in the new version of the file, or in the old one for removed lines; null for whole files
+  line: number | null;
+  // Enough of the match to recognise it, never the full secret
+  preview: string;
+}
+
+export interface ScanResult {
+  content: string;
+  findings: SecretFinding[];
+}
+
+const SECRET_PATTERNS: { kind: string; pattern: RegExp }[] = [
+  { kind: 'AWS access key', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g },
+  { kind: 'AWS secret key', pattern: /(?<=aws_?secret_?access_?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi },
+  { kind: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { kind: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'OpenAI API key', pattern: /\bsk-(?!ant-)(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'Stripe key', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{20,}\b/g },
+  { kind: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+];
+
+// Literals assigned to names like these are treated as secrets even when they look ordinary
+const SECRET_ASSIGNMENT = /([\w.-]+)["']?\s*[:=](?![=>])\s*(["'`]?)([^\s"'`,;]{8,})/g;
+
+// Matched against the name with camelCase split into snake_case; auth only as a word of its own, not in author
+const SECRET_NAME = /secret|token|passw(?:or)?d|pwd|api_?key|credential|private_?key|(?:^|[^a-z])auth(?![a-z])/;
+
+// Other variables, member accesses and calls, as in apiKey = config.apiKey or tokens = countTokens(prompt)
+const CODE_REFERENCE = /^[A-Za-z_$][\w$]*(?:(?:\.[\w$]+)+|\()/;
+
+const PRIVATE_KEY_BEGIN = /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/;
+
+// Long tokens in quotes or right after an assignment are the usual shape of a pasted credential
+const ENTROPY_CANDIDATE = /(?:["'`]|[=:]\s*)([A-Za-z0-9+/_=-]{20,})/g;
+
+const SENSITIVE_FILES: RegExp[] = [
+  /^\.env$/,
+  /^\.env\.(?!example$|sample$|template$|dist$|defaults$).+/,
+  /\.(?:pem|key|p12|pfx|jks|keystore|ppk|asc|gpg)$/i,
+  /^id_(?:rsa|dsa|ecdsa|ed25519)$/,
+  /^(?:\.npmrc|\.pypirc|\.netrc|\.htpasswd|\.git-credentials)$/,
+  /^(?:credentials|secrets?)\.(?:json|ya?ml|toml)$/i,
+  /^service[-_]account.*\.json$/i,
+];
+
+const REDACTED = (kind: string) => `[REDACTED ${kind}]`;
+
+export function isSensitiveFile(path: string): boolean {
+  const name = basename(path);
+  return SENSITIVE_FILES.some(pattern => pattern.test(name));
+}
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+const maskSecret = (value: string) => value.length <= 8 ? '***' : `${value.slice(0, 4)}…${value.slice(-2)}`;
+
+const isHighEntropy = (value: string): boolean => {
+  if (/^[0-9a-f]+$/i.test(value)) {
+    // Hex is everywhere in diffs (hashes, colours, ids), only flag long random-looking runs
+    return value.length >= 40 && shannonEntropy(value) >= 3.7;
+  }
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/].filter(pattern => pattern.test(value)).length;
+  return classes >= 3 && shannonEntropy(value) >= 4.2;
+};
+
+const getFileName = (section: string): string => {
+  const match = section.match(/^diff --git a\/.+? b\/(.+)$/m);
+  return match ? match[1] : 'unknown file';
+};
+
+interface LineState {
+  inPrivateKey: boolean;
+}
+
+// Returns the line with every secret replaced, or null when the line is part of a private key block
+function redactLine(text: string, file: string, line: number | null, findings: SecretFinding[], state: LineState): string | null {
+  // Whole private key blocks are dropped, not just the marker line
+  if (state.inPrivateKey) {
+    if (PRIVATE_KEY_END.test(text)) state.inPrivateKey = false;
+    return null;
+  }
+  if (PRIVATE_KEY_BEGIN.test(text)) {
+    findings.push({ kind: 'Private key', file, line, preview: text.match(PRIVATE_KEY_BEGIN)![0] });
+    state.inPrivateKey = !PRIVATE_KEY_END.test(text);
+    return REDACTED('private key');
+  }
+
+  for (const { kind, pattern } of SECRET_PATTERNS) {
+    text = text.replace(pattern, match => {
+      findings.push({ kind, file, line, preview: maskSecret(match) });
+      return REDACTED(kind);
+    });
+  }
+
+  text = text.replace(SECRET_ASSIGNMENT, (match, name: string, quote: string, value: string) => {
+    if (!SECRET_NAME.test(name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase())) return match;
+    // Placeholders and references to the environment are not secrets
+    if (value.startsWith('[REDACTED') || /^(?:\$|process\.env|os\.environ|getenv|env\(|<|\{\{|%|xxx|\*{3}|your|change|example|dummy|fake|placeholder)/i.test(value)) {
+      return match;
+    }
+    // Unquoted values are mostly code or type annotations, only random-looking ones are taken for a pasted secret
+    if (!quote && (CODE_REFERENCE.test(value) || !isHighEntropy(value))) return match;
+    findings.push({ kind: 'Secret assignment', file, line, preview: `${name}=${maskSecret(value)}` });
+    return match.slice(0, match.length - value.length) + REDACTED('secret');
+  });
+
+  return text.replace(ENTROPY_CANDIDATE, (match, value: string) => {
+    if (!isHighEntropy(value)) return match;
+    findings.push({ kind: 'High-entropy string', file, line, preview: maskSecret(value) });
+    return match.slice(0, match.length - value.length) + REDACTED('high-entropy string');
+  });
+}
+
+function scanSection(section: string, findings: SecretFinding[]): string {
+  const file = getFileName(section);
+  const lines = section.split('\n');
+  const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+  const header = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+
+  if (isSensitiveFile(file)) {
+    findings.push({ kind: 'Sensitive file', file, line: null, preview: basename(file) });
+    const kept = header.filter(line => line && !line.startsWith('Binary files'));
+    return [...kept, `[content of ${basename(file)} not sent, sensitive file]`, ''].join('\n');
+  }
+  if (firstHunk === -1) {
+    return section;
+  }
+
+  const output = [...header];
+  const state: LineState = { inPrivateKey: false };
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of lines.slice(firstHunk)) {
+    // The empty string after the section's final newline must stay empty, the next section starts right after it
+    if (line === '') {
+      output.push(line);
+      continue;
+    }
+    const hunk = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)/);
+    if (hunk) {
+      oldLine = Number(hunk[1]);
+      newLine = Number(hunk[2]);
+      output.push(line);
+      continue;
+    }
+
+    const prefix = line[0] || ' ';
+    const lineNumber = prefix === '-' ? oldLine : newLine;
+    if (prefix !== '+') oldLine++;
+    if (prefix !== '-') newLine++;
+
+    const redacted = redactLine(line.slice(1), file, lineNumber, findings, state);
+    if (redacted !== null) output.push(prefix + redacted);
+  }
+
+  return output.join('\n');
+}
+
+// Scans every line of a diff, context and removed lines included, since all of it leaves the machine
+export function scanDiff(content: string): ScanResult {
+  const findings: SecretFinding[] = [];
+  const sections = content.split(/^(?=diff --git )/m);
+  const scanned = sections.map(section => section.startsWith('diff --git ') ? scanSection(section, findings) : section);
+  return { content: scanned.join(''), findings };
+}
+
+// For text that isn't a diff, like commit messages that go into a prompt
+export function scanText(text: string, source: string): ScanResult {
+  const findings: SecretFinding[] = [];
+  const state: LineState = { inPrivateKey: false };
+  const lines = text.split('\n')
+    .map((line, index) => redactLine(line, source, index + 1, findings, state))
+    .filter((line): line is string => line !== null);
+  return { content: lines.join('\n'), findings };
+}
+
+export class SensitiveContentError extends Error {
+  findings: SecretFinding[];
+
+  constructor(findings: SecretFinding[]) {
+    super(`Sensitive content found, nothing was sent (secretPolicy is "block"):\n${findings.map(finding => `- ${describeFinding(finding)}`).join('\n')}`);
+    this.name = 'SensitiveContentError';
+    this.findings = findings;
+  }
+}
+
+export function describeFinding(finding: SecretFinding): string {
+  const location = finding.line !== null ? `${finding.file}:${finding.line}` : finding.file;
+  return `${finding.kind} in ${location} (${finding.preview})`;
+}
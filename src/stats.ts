@@ -0,0 +1,134 @@
+import chalk from 'chalk';
+import { homedir } from 'os';
+import { getConfig } from './config.js';
+import { ExitCode } from './headless.js';
+import { UsageEntry, UsageTotals, readUsageLog, sumUsage, formatCost, getUsageLogPath } from './usage.js';
+
+export interface StatsOptions {
+  days?: number;
+  json?: boolean;
+}
+
+export interface StatsRow extends UsageTotals {
+  label: string;
+}
+
+export interface UsageReport {
+  daily: StatsRow[];
+  weekly: StatsRow[];
+  repos: StatsRow[];
+  total: StatsRow;
+}
+
+const WEEKS = 4;
+
+export const DEFAULT_STATS_DAYS = 7;
+
+// Local midnight, days later or earlier; calendar arithmetic keeps days that change the clock at their full length
+const startOfDay = (time: number, offset = 0) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + offset);
+  return date.getTime();
+};
+
+// Weeks start on Monday
+const startOfWeek = (time: number, offset = 0) => startOfDay(time, -((new Date(time).getDay() + 6) % 7) + offset * 7);
+
+// Local date, the same day the user would name
+const formatDate = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const shortenPath = (path: string) => path.startsWith(homedir()) ? '~' + path.slice(homedir().length) : path;
+
+// Every day and week of the period gets a row, quiet ones included, so gaps are visible
+export function buildUsageReport(entries: UsageEntry[], days: number, now = Date.now()): UsageReport {
+  const { pricing } = getConfig();
+  const row = (label: string, rowEntries: UsageEntry[]): StatsRow => ({ label, ...sumUsage(rowEntries, pricing) });
+  const since = startOfDay(now, 1 - days);
+  const recent = entries.filter(entry => entry.time >= since);
+
+  const daily = Array.from({ length: days }, (_, index) => {
+    const start = startOfDay(since, index);
+    return row(formatDate(start), recent.filter(entry => startOfDay(entry.time) === start));
+  });
+
+  const weekly = Array.from({ length: WEEKS }, (_, index) => {
+    const start = startOfWeek(now, index + 1 - WEEKS);
+    return row(`Week of ${formatDate(start)}`, entries.filter(entry => startOfWeek(entry.time) === start));
+  });
+
+  const byRepo = new Map<string, UsageEntry[]>();
+  for (const entry of recent) {
+    const repo = entry.repo ? shortenPath(entry.repo) : '(outside a repository)';
+    byRepo.set(repo, [...(byRepo.get(repo) || []), entry]);
+  }
+  const repos = [...byRepo.entries()]
+    .map(([repo, repoEntries]) => row(repo, repoEntries))
+    .sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+
+  return { daily, weekly, repos, total: row(`All (last ${days} day${days !== 1 ? 's' : ''})`, recent) };
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const formatRow = (row: StatsRow): string[] => [
+  row.label,
+  String(row.requests),
+  row.promptTokens.toLocaleString('en-US'),
+  row.completionTokens.toLocaleString('en-US'),
+  row.requests === 0 ? '-' : row.unpriced === row.requests ? '?' : formatCost(row.cost) + (row.unpriced > 0 ? '+' : ''),
+  row.requests === 0 ? '-' : formatDuration(row.durationMs / row.requests),
+];
+
+function printTable(title: string, rows: StatsRow[]): void {
+  const header = [title, 'Requests', 'Prompt', 'Completion', 'Cost', 'Avg latency'];
+  const cells = [header, ...rows.map(formatRow)];
+  const widths = header.map((_, column) => Math.max(...cells.map(line => line[column].length)));
+  // Labels are left-aligned, numbers right-aligned
+  const format = (line: string[]) => line
+    .map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+    .join('  ');
+  console.log(chalk.bold(format(header)));
+  cells.slice(1).forEach(line => console.log(format(line)));
+  console.log('');
+}
+
+export async function runStats(options: StatsOptions): Promise<number> {
+  let entries: UsageEntry[];
+  try {
+    entries = readUsageLog();
+  } catch (err) {
+    console.error(chalk.red(`❌ Error: ${err instanceof Error ? err.message : err}`));
+    return ExitCode.ERROR;
+  }
+
+  const report = buildUsageReport(entries, options.days ?? DEFAULT_STATS_DAYS);
+  if (options.json) {
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+    return ExitCode.SUCCESS;
+  }
+
+  if (entries.length === 0) {
+    console.log(chalk.gray(`No requests recorded yet in ${getUsageLogPath()}`));
+    return ExitCode.SUCCESS;
+  }
+
+  printTable('Day', report.daily);
+  printTable('Week', report.weekly);
+  if (report.repos.length > 0) {
+    printTable('Repository', [...report.repos, report.total]);
+  }
+
+  const rows = [...report.daily, ...report.weekly];
+  if (rows.some(row => row.unpriced > 0)) {
+    console.log(chalk.gray('? = no known price for the model, + = some requests without a known price. Set prices per million tokens under "pricing".'));
+  }
+  if (rows.some(row => row.estimated)) {
+    console.log(chalk.gray('Some providers did not report token counts, those were estimated with the bundled tokenizer.'));
+  }
+  console.log(chalk.gray(`Usage log: ${getUsageLogPath()}`));
+  return ExitCode.SUCCESS;
+}
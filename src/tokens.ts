@@ -0,0 +1,198 @@
+import { countTokens as countO200kTokens } from 'gpt-tokenizer';
+import { Config } from './types.js';
+import { PROVIDERS } from './providers.js';
+
+export interface ModelLimits {
+  model: string;
+  contextWindow: number;
+  // Tokens kept free for the response
+  outputTokens: number;
+}
+
+export interface FittedDiff {
+  content: string;
+  tokens: number;
+  truncated: string[];
+  summarized: string[];
+}
+
+// Matched against the lowercased model name without a vendor prefix or Ollama tag, first match wins
+const CONTEXT_WINDOWS: { pattern: RegExp; tokens: number }[] = [
+  { pattern: /^gpt-4\.1/, tokens: 1_047_576 },
+  { pattern: /^gpt-5/, tokens: 400_000 },
+  { pattern: /^gpt-4o|^chatgpt-4o/, tokens: 128_000 },
+  { pattern: /^gpt-4-turbo|^gpt-4-\d{4}-preview/, tokens: 128_000 },
+  { pattern: /^gpt-4-32k/, tokens: 32_768 },
+  { pattern: /^gpt-4/, tokens: 8_192 },
+  { pattern: /^gpt-3\.5-turbo/, tokens: 16_385 },
+  { pattern: /^o[134](?:-|$)/, tokens: 200_000 },
+  { pattern: /^claude/, tokens: 200_000 },
+  { pattern: /^gemini/, tokens: 1_048_576 },
+  { pattern: /^deepseek/, tokens: 65_536 },
+  { pattern: /^llama-?3\.[1-3]/, tokens: 131_072 },
+  { pattern: /^llama-?3/, tokens: 8_192 },
+  { pattern: /^llama-?2/, tokens: 4_096 },
+  { pattern: /^codellama/, tokens: 16_384 },
+  { pattern: /^qwen/, tokens: 32_768 },
+  { pattern: /^mi[sx]tral|^codestral/, tokens: 32_768 },
+  { pattern: /^gemma/, tokens: 8_192 },
+  { pattern: /^phi-?3/, tokens: 4_096 },
+];
+
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+// Ollama allocates memory for the whole window it is asked for, so unknown to us is not the same as unlimited
+const OLLAMA_DEFAULT_CONTEXT_WINDOW = 8_192;
+
+const MAX_OUTPUT_TOKENS = 8000;
+
+// More diff rarely makes a better commit message, it only makes the request slower and more expensive
+const MAX_DIFF_TOKENS = 50_000;
+
+// Headings and instructions of the prompt templates around the variable parts
+const PROMPT_TEMPLATE_TOKENS = 800;
+
+// The bundled tokenizer is OpenAI's, other vendors' tokenizers count somewhat differently
+const FOREIGN_TOKENIZER_MARGIN = 0.9;
+
+// Every compression level halves the diff budget, for when the model rejects a prompt as too long anyway
+export const COMPRESSION_FACTOR = 0.5;
+
+// Below this a truncated file says less than its one-line summary
+const MIN_USEFUL_TOKENS = 40;
+
+export function countTokens(text: string): number {
+  return text ? countO200kTokens(text) : 0;
+}
+
+const normalizeModel = (model: string) => model.toLowerCase().split('/').pop()!.split(':')[0];
+
+export function getContextWindow(model: string): number | null {
+  const name = normalizeModel(model);
+  return CONTEXT_WINDOWS.find(({ pattern }) => pattern.test(name))?.tokens ?? null;
+}
+
+export function getModelLimits(config: Config): ModelLimits {
+  const provider = config.provider || 'openai';
+  // Azure deployment names are arbitrary, the model name is only a hint when the user set one
+  const model = config.model || (provider === 'azure' ? config.azureDeployment : undefined) || PROVIDERS[provider].defaultModel;
+  const known = getContextWindow(model);
+
+  const contextWindow = config.contextWindow
+    ?? (provider === 'ollama' ? Math.min(known ?? OLLAMA_DEFAULT_CONTEXT_WINDOW, OLLAMA_DEFAULT_CONTEXT_WINDOW) : known ?? DEFAULT_CONTEXT_WINDOW);
+
+  return { model, contextWindow, outputTokens: Math.min(MAX_OUTPUT_TOKENS, Math.floor(contextWindow / 4)) };
+}
+
+const getUsableWindow = (limits: ModelLimits) => {
+  const exactTokenizer = /^(?:gpt-|chatgpt-|o\d)/.test(normalizeModel(limits.model));
+  return exactTokenizer ? limits.contextWindow : Math.floor(limits.contextWindow * FOREIGN_TOKENIZER_MARGIN);
+};
+
+// What is left for the diff once the system prompt, the other prompt sections and the response are accounted for
+export function computeDiffBudget(limits: ModelLimits, fixedParts: (string | null)[], compression = 0): number {
+  const fixedTokens = fixedParts.reduce((sum, part) => sum + countTokens(part || ''), PROMPT_TEMPLATE_TOKENS);
+  const budget = Math.max(0, Math.min(MAX_DIFF_TOKENS, getUsableWindow(limits) - limits.outputTokens - fixedTokens));
+  return Math.floor(budget * COMPRESSION_FACTOR ** compression);
+}
+
+// Whether a finished prompt and the response fit the model, for prompts that were sized for another one
+export function fitsContextWindow(limits: ModelLimits, parts: string[]): boolean {
+  const tokens = parts.reduce((sum, part) => sum + countTokens(part), 0);
+  return tokens + limits.outputTokens <= getUsableWindow(limits);
+}
+
+// Lower numbers get their share of the budget first: source, tests, configuration and everything else, documentation
+export function getFilePriority(file: string): number {
+  if (/\.(test|spec)\.(js|ts|jsx|tsx)$|(^|\/)(tests?|__tests__)\//.test(file)) return 1;
+  if (/\.(md|txt|rst)$|(^|\/)docs?\//i.test(file)) return 3;
+  if (/\.(js|ts|jsx|tsx|mjs|cjs|py|java|kt|swift|cpp|cc|c|h|hpp|cs|go|rs|php|rb|vue|svelte)$/.test(file)) return 0;
+  return 2;
+}
+
+interface BudgetedSection {
+  file: string;
+  content: string;
+  summary: string;
+  tokens: number;
+  summaryTokens: number;
+  priority: number;
+}
+
+const getSectionFile = (section: string): string => {
+  const match = section.match(/^diff --git a\/(.+?) b\/(.+?)$/m);
+  return match ? match[2] : 'unknown file';
+};
+
+const summarizeSection = (file: string, section: string): string => {
+  const lines = section.split('\n');
+  const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+  const changes = firstHunk === -1 ? [] : lines.slice(firstHunk);
+  const additions = changes.filter(line => line.startsWith('+')).length;
+  const deletions = changes.filter(line => line.startsWith('-')).length;
+  return `File: ${file} (+${additions} -${deletions} lines), diff omitted to fit the context window\n`;
+};
+
+// Keeps whole lines from the top of the section until the allowance is used up
+const truncateSection = (section: string, allowance: number): string => {
+  const lines = section.split('\n');
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = countTokens(line + '\n');
+    if (used + cost > allowance) break;
+    kept.push(line);
+    used += cost;
+  }
+  return `${kept.join('\n')}\n... (${lines.length - kept.length} more lines not shown)\n`;
+};
+
+// Every file stays listed; the remaining budget goes to one priority tier after another,
+// and within a tier small files are kept whole while large ones share what is left equally
+export function fitDiffToBudget(sections: string[], budget: number): FittedDiff {
+  const budgeted: BudgetedSection[] = sections.map(content => {
+    const file = getSectionFile(content);
+    const summary = summarizeSection(file, content);
+    return { file, content, summary, tokens: countTokens(content), summaryTokens: countTokens(summary), priority: getFilePriority(file) };
+  });
+
+  const total = budgeted.reduce((sum, section) => sum + section.tokens, 0);
+  if (total <= budget) {
+    return { content: sections.join(''), tokens: total, truncated: [], summarized: [] };
+  }
+
+  let remaining = budget - budgeted.reduce((sum, section) => sum + section.summaryTokens, 0);
+  if (remaining < 0) {
+    // Not even the file list fits, keep as much of it as possible
+    const content = truncateSection(budgeted.map(section => section.summary).join('').trimEnd(), budget);
+    return { content, tokens: countTokens(content), truncated: [], summarized: budgeted.map(section => section.file) };
+  }
+
+  const allowances = new Map<BudgetedSection, number>();
+  const tiers = Array.from(new Set(budgeted.map(section => section.priority))).sort((a, b) => a - b);
+  for (const tier of tiers) {
+    const tierSections = budgeted.filter(section => section.priority === tier).sort((a, b) => a.tokens - b.tokens);
+    tierSections.forEach((section, index) => {
+      const share = Math.floor(remaining / (tierSections.length - index));
+      // The summary is already paid for and is dropped when the diff itself is shown
+      const extra = Math.min(Math.max(0, section.tokens - section.summaryTokens), share);
+      allowances.set(section, section.summaryTokens + extra);
+      remaining -= extra;
+    });
+  }
+
+  const truncated: string[] = [];
+  const summarized: string[] = [];
+  const content = budgeted.map(section => {
+    const allowance = allowances.get(section)!;
+    if (allowance >= section.tokens) return section.content;
+    if (allowance - section.summaryTokens < MIN_USEFUL_TOKENS) {
+      summarized.push(section.file);
+      return section.summary;
+    }
+    truncated.push(section.file);
+    return truncateSection(section.content, allowance);
+  }).join('');
+
+  return { content, tokens: countTokens(content), truncated, summarized };
+}
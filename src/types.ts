@@ -1,10 +1,45 @@
+import { ConventionPreset, CustomConvention } from './conventions.js';
+import { SecretPolicy } from './secrets.js';
+
+export type ProviderName = 'openai' | 'anthropic' | 'ollama' | 'azure';
+
 export interface Config {
+  provider?: ProviderName;
   apiKey?: string;
   baseUrl?: string;
   model?: string;
   language?: 'en' | 'zh';
+  convention?: ConventionPreset | CustomConvention;
+  anthropicApiKey?: string;
+  anthropicBaseUrl?: string;
+  ollamaBaseUrl?: string;
+  azureApiKey?: string;
+  azureEndpoint?: string;
+  azureDeployment?: string;
+  azureApiVersion?: string;
+  candidates?: number;
+  timeout?: number;
+  prTemplate?: string;
+  secretPolicy?: SecretPolicy;
+  contextWindow?: number;
+  cacheMaxAge?: number;
+  cacheMaxSize?: number;
+  maxRetries?: number;
+  fallbacks?: FallbackTarget[];
+  // Keyed by model name, overrides the built-in prices
+  pricing?: Record<string, ModelPrice>;
+  correctionExamples?: number;
+}
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
 }
 
+// A model name on the same provider, or the provider, model and endpoint settings to switch to
+export type FallbackTarget = string | Pick<Config, 'provider' | 'model' | 'baseUrl' | 'anthropicBaseUrl' | 'ollamaBaseUrl' | 'azureEndpoint' | 'azureDeployment' | 'azureApiVersion'>;
+
 export interface GitDiff {
   files: string[];
   additions: number;
@@ -12,6 +47,41 @@ export interface GitDiff {
   content: string;
 }
 
+export interface CommitTrailer {
+  key: string;
+  value: string;
+}
+
+export interface CommitLogEntry {
+  hash: string;
+  subject: string;
+  body: string;
+  trailers: CommitTrailer[];
+}
+
+export interface CommitGroup {
+  message: string;
+  files: string[];
+}
+
+export interface CommitCandidate {
+  message: string;
+  violations: string[];
+}
+
+// Part of a large change that is summarized on its own before the commit message is written
+export interface SummaryChunk {
+  label: string;
+  files: string[];
+  status: 'pending' | 'running' | 'done';
+}
+
+// Whole files go through `git add`, partially selected files through patches applied to the index
+export interface StagingSelection {
+  files: string[];
+  patches: string[];
+}
+
 export interface CommitOptions {
   message: string;
   addAll: boolean;
@@ -0,0 +1,135 @@
+import { appendFileSync, mkdirSync, readFileSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { findGitRoot } from './config.js';
+import { getDataDir } from './cache.js';
+import { CompletedCall } from './providers.js';
+import { countTokens } from './tokens.js';
+import { ModelPrice, ProviderName } from './types.js';
+
+// One request as written to the usage log, one JSON object per line
+export interface UsageEntry {
+  time: number;
+  repo: string | null;
+  provider: ProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  durationMs: number;
+  // The provider didn't report usage, the tokens were counted with the bundled tokenizer
+  estimated?: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  durationMs: number;
+  // US dollars for the requests with a known price
+  cost: number;
+  // Requests whose model has no known price, not included in cost
+  unpriced: number;
+  estimated: boolean;
+}
+
+// Matched against the lowercased model name without a vendor prefix, first match wins
+const BUILT_IN_PRICES: { pattern: RegExp; price: ModelPrice }[] = [
+  { pattern: /^gpt-4o-mini/, price: { input: 0.15, output: 0.6 } },
+  { pattern: /^gpt-4o|^chatgpt-4o/, price: { input: 2.5, output: 10 } },
+  { pattern: /^gpt-4\.1-nano/, price: { input: 0.1, output: 0.4 } },
+  { pattern: /^gpt-4\.1-mini/, price: { input: 0.4, output: 1.6 } },
+  { pattern: /^gpt-4\.1/, price: { input: 2, output: 8 } },
+  { pattern: /^gpt-3\.5-turbo/, price: { input: 0.5, output: 1.5 } },
+  { pattern: /^o[34]-mini/, price: { input: 1.1, output: 4.4 } },
+  { pattern: /^claude-haiku/, price: { input: 1, output: 5 } },
+  { pattern: /^claude-3-5-haiku/, price: { input: 0.8, output: 4 } },
+  { pattern: /^claude-3-haiku/, price: { input: 0.25, output: 1.25 } },
+  { pattern: /^claude-(?:3-(?:[57]-)?)?sonnet/, price: { input: 3, output: 15 } },
+  { pattern: /^claude-(?:3-)?opus/, price: { input: 15, output: 75 } },
+];
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0, promptTokens: 0, completionTokens: 0, durationMs: 0, cost: 0, unpriced: 0, estimated: false,
+});
+
+export const getUsageLogPath = () => join(getDataDir(), 'usage.jsonl');
+
+// Turns a finished request into a log entry, counting the tokens ourselves when the provider didn't
+export function toUsageEntry(call: CompletedCall, cwd: string = process.cwd()): UsageEntry {
+  const { usage } = call.response;
+  const completion = call.response.choices?.join('\n') ?? call.response.content;
+  return {
+    time: Date.now(),
+    repo: findGitRoot(cwd),
+    provider: call.provider,
+    model: call.model,
+    promptTokens: usage?.promptTokens ?? countTokens(call.request.system) + countTokens(call.request.prompt),
+    completionTokens: usage?.completionTokens ?? countTokens(completion),
+    durationMs: call.durationMs,
+    ...(usage ? {} : { estimated: true }),
+  };
+}
+
+// The log is bookkeeping only, a read-only or full disk must not fail a commit
+export function recordUsage(entry: UsageEntry): void {
+  try {
+    const path = getUsageLogPath();
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, JSON.stringify(entry) + '\n');
+  } catch {
+    // Nothing to do, the request itself succeeded
+  }
+}
+
+export function readUsageLog(): UsageEntry[] {
+  const path = getUsageLogPath();
+  if (!existsSync(path)) return [];
+  try {
+    return readFileSync(path, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .flatMap(line => {
+        // A line cut short by a crash only loses that request
+        try {
+          return [JSON.parse(line) as UsageEntry];
+        } catch {
+          return [];
+        }
+      });
+  } catch (error) {
+    throw new Error(`Failed to read the usage log: ${error}`);
+  }
+}
+
+export function getModelPrice(entry: Pick<UsageEntry, 'provider' | 'model'>, pricing: Record<string, ModelPrice> = {}): ModelPrice | null {
+  if (pricing[entry.model]) return pricing[entry.model];
+  // Local models cost nothing per token
+  if (entry.provider === 'ollama') return { input: 0, output: 0 };
+  const name = entry.model.toLowerCase().split('/').pop()!;
+  return BUILT_IN_PRICES.find(({ pattern }) => pattern.test(name))?.price ?? null;
+}
+
+export function sumUsage(entries: UsageEntry[], pricing?: Record<string, ModelPrice>): UsageTotals {
+  return entries.reduce((totals, entry) => {
+    const price = getModelPrice(entry, pricing);
+    return {
+      requests: totals.requests + 1,
+      promptTokens: totals.promptTokens + entry.promptTokens,
+      completionTokens: totals.completionTokens + entry.completionTokens,
+      durationMs: totals.durationMs + entry.durationMs,
+      cost: totals.cost + (price ? (entry.promptTokens * price.input + entry.completionTokens * price.output) / 1_000_000 : 0),
+      unpriced: totals.unpriced + (price ? 0 : 1),
+      estimated: totals.estimated || Boolean(entry.estimated),
+    };
+  }, emptyTotals());
+}
+
+// Small amounts keep enough digits to be told apart, a single message usually costs a fraction of a cent
+export const formatCost = (cost: number) => `$${cost >= 1 ? cost.toFixed(2) : cost.toFixed(4)}`;
+
+export function describeUsage(totals: UsageTotals): string {
+  const tokens = `${totals.promptTokens.toLocaleString('en-US')} prompt + ${totals.completionTokens.toLocaleString('en-US')} completion tokens${totals.estimated ? ' (estimated)' : ''}`;
+  const cost = totals.unpriced === totals.requests
+    ? 'cost unknown, set "pricing" for this model'
+    : `${formatCost(totals.cost)}${totals.unpriced > 0 ? ` (${totals.unpriced} without a known price)` : ''}`;
+  return `${totals.requests} request${totals.requests !== 1 ? 's' : ''}, ${tokens}, ${cost}`;
+}